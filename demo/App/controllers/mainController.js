@@ -20,7 +20,7 @@ exports.getProfilePage = async(req, res, next) => {
     let profile;
 
     try {
-        profile = await fetchManager.callAPI(appSettings.remoteResources.graphAPI.endpoint, req.session.remoteResources["graphAPI"].accessToken);
+        profile = await fetchManager.callAPI(appSettings.remoteResources.graphAPI.endpoint, await req.getAccessToken("graphAPI"));
         res.render('profile', { isAuthenticated: req.session.isAuthenticated, profile: profile });        
     } catch (error) {
         console.log(error);
@@ -32,7 +32,7 @@ exports.getTenantPage = async(req, res, next) => {
     let tenant;
 
     try {
-        tenant = await fetchManager.callAPI(appSettings.remoteResources.armAPI.endpoint, req.session.remoteResources["armAPI"].accessToken);
+        tenant = await fetchManager.callAPI(appSettings.remoteResources.armAPI.endpoint, await req.getAccessToken("armAPI"));
         res.render('tenant', { isAuthenticated: req.session.isAuthenticated, tenant: tenant.value[0] });
     } catch (error) {
         console.log(error);
@@ -3,6 +3,9 @@
  * Licensed under the MIT License.
  */
 import express from 'express';
+import { EventEmitter } from 'events';
+import { setInterval, clearInterval } from 'timers';
+import jwt from 'jsonwebtoken';
 
 import {
   RequestHandler,
@@ -13,6 +16,7 @@ import {
 } from 'express';
 
 import {
+  Constants,
   InteractionRequiredAuthError,
   OIDC_DEFAULT_SCOPES,
   PromptValue,
@@ -33,29 +37,65 @@ import {
 
 import { ConfigurationUtils } from './ConfigurationUtils';
 import { TokenValidator } from './TokenValidator';
-import { KeyVaultManager } from './KeyVaultManager';
-import { FetchManager } from './FetchManager';
+import {
+  KeyVaultCredentialProvider,
+  FileCredentialProvider,
+  ClientAssertionCredentialProvider,
+} from './CredentialProviders';
+import { CertificateUtils } from './CertificateUtils';
+import { FetchManager, DownstreamApiError } from './FetchManager';
 import { UrlUtils } from './UrlUtils';
+import { StateManager } from './StateManager';
 import { Logger } from './Logger';
 
 import {
   Resource,
+  State,
+  AuthFlow,
   AppSettings,
   AuthCodeParams,
   InitializationOptions,
   TokenRequestOptions,
+  TokensRequestOptions,
+  DownstreamApiOptions,
+  DownstreamApiResponse,
   GuardOptions,
   AccessRule,
+  IdTokenClaims,
+  AccessTokenClaims,
   SignInOptions,
   SignOutOptions,
+  ConsentRequestOptions,
+  ClaimsChallengeOptions,
   HandleRedirectOptions,
+  SignInHookContext,
+  SignInHookResult,
+  ProblemDetails,
+  GroupOverageOptions,
+  AuthEventMap,
+  ClientCredential,
+  CredentialProvider,
 } from './Types';
 
 import {
   AppStages,
+  B2CPolicyNames,
+  BearerErrorCodes,
+  GuardResponseTypes,
+  HttpStatusCodes,
+  ErrorCodes,
   ErrorMessages,
   AccessConstants,
   InfoMessages,
+  ClaimsChallengeConstants,
+  GroupMembershipTypes,
+  GroupOverageConstants,
+  LoggerConstants,
+  AuthEventTypes,
+  CredentialConstants,
+  OIDCConstants,
+  StateConstants,
+  RouteConstants,
 } from './Constants';
 
 /**
@@ -64,11 +104,19 @@ import {
  * basic authentication and authorization tasks in Express MVC web apps and
  * RESTful APIs (coming soon).
  */
-export class AuthProvider {
+export class AuthProvider extends EventEmitter {
   appSettings: AppSettings;
   private msalConfig: Configuration;
   private cryptoProvider: CryptoProvider;
   private tokenValidator: TokenValidator;
+  private stateManager: StateManager;
+  private groupCache: Map<string, { groups: string[]; expiresOn: number }>;
+  private endSessionEndpoints: Map<string, string>;
+  private cachePlugin?: ICachePlugin;
+  private credentialProvider: CredentialProvider | null;
+  private credentialRefresh: Promise<void> | null;
+  private credentialExpiresOn: number | null;
+  private credentialRefreshTimer: NodeJS.Timeout | null;
   msalClient: ConfidentialClientApplication;
 
   /**
@@ -77,9 +125,45 @@ export class AuthProvider {
    * @constructor
    */
   constructor(appSettings: AppSettings, cache?: ICachePlugin) {
+    super();
     ConfigurationUtils.validateAppSettings(appSettings);
+
+    // certificate files are loaded here, unless already loaded by buildAsync
+    if (
+      appSettings.appCredentials.clientCertificateFile &&
+      !appSettings.appCredentials.clientCertificate
+    ) {
+      appSettings = AuthProvider.applyCredential(appSettings, {
+        clientCertificate: CertificateUtils.loadCertificate(
+          appSettings.appCredentials.clientCertificateFile
+        ),
+      });
+    }
+
+    // likewise for assertion token files. Callbacks, Key Vault and custom providers need buildAsync
+    if (
+      appSettings.appCredentials.clientAssertionSource &&
+      !AuthProvider.hasCredential(appSettings)
+    ) {
+      appSettings = AuthProvider.applyCredential(
+        appSettings,
+        new ClientAssertionCredentialProvider(
+          appSettings.appCredentials.clientAssertionSource
+        ).getCredentialSync()
+      );
+    }
+
+    if (!AuthProvider.hasCredential(appSettings)) {
+      throw new Error(ErrorMessages.BUILD_ASYNC_REQUIRED);
+    }
+
     this.appSettings = appSettings;
 
+    if (appSettings.loggerOptions) {
+      Logger.setLoggerOptions(appSettings.loggerOptions);
+    }
+
+    this.cachePlugin = cache;
     this.msalConfig = ConfigurationUtils.getMsalConfiguration(
       appSettings,
       cache
@@ -87,33 +171,83 @@ export class AuthProvider {
     this.msalClient = new ConfidentialClientApplication(this.msalConfig);
 
     this.tokenValidator = new TokenValidator(this.appSettings, this.msalConfig);
+    this.stateManager = new StateManager(this.appSettings);
     this.cryptoProvider = new CryptoProvider();
+    this.groupCache = new Map();
+    this.endSessionEndpoints = new Map();
+
+    this.credentialProvider = AuthProvider.getCredentialProvider(appSettings);
+    this.credentialRefresh = null;
+    this.credentialRefreshTimer = null;
+    this.credentialExpiresOn = AuthProvider.getAssertionExpiry(
+      appSettings.appCredentials.clientAssertion
+    );
+    this.scheduleCredentialRefresh();
   }
 
   /**
-   * Asynchronously builds authProvider object with credentials fetched from Key Vault
+   * Asynchronously builds authProvider object with credentials fetched from
+   * the credential provider (by default, Key Vault if configured). Errors are thrown
    * @param {AppSettings} appSettings
    * @param {ICachePlugin} cache: cachePlugin
-   * @returns
+   * @returns {Promise}
    */
   static async buildAsync(
     appSettings: AppSettings,
     cache?: ICachePlugin
   ): Promise<AuthProvider> {
-    try {
-      const keyVault = new KeyVaultManager();
-      const appSettingsWithKeyVaultCredentials =
-        await keyVault.getCredentialFromKeyVault(appSettings);
-      const authProvider = new AuthProvider(
-        appSettingsWithKeyVaultCredentials,
-        cache
-      );
-      return authProvider;
-    } catch (error) {
-      console.log(error);
+    const credentialProvider = AuthProvider.getCredentialProvider(appSettings);
+
+    if (!credentialProvider) {
+      return new AuthProvider(appSettings, cache);
     }
+
+    const credential = await credentialProvider.getCredential();
+
+    return new AuthProvider(
+      AuthProvider.applyCredential(appSettings, credential),
+      cache
+    );
   }
 
+  /**
+   * Fetches the client credential from the credential provider and, if it has changed,
+   * rebuilds the MSAL client with it. Requests in flight complete on the previous
+   * client, while cached tokens are carried over to the new one. Concurrent calls
+   * share a single refresh
+   * @returns {Promise}
+   */
+  refreshCredential = async (): Promise<void> => {
+    if (!this.credentialProvider) {
+      return;
+    }
+
+    if (!this.credentialRefresh) {
+      this.credentialRefresh = (async () => {
+        try {
+          const credential = await this.credentialProvider.getCredential();
+          this.rebuildMsalClient(credential);
+        } finally {
+          this.credentialRefresh = null;
+        }
+      })();
+    }
+
+    return this.credentialRefresh;
+  };
+
+  /**
+   * Stops the scheduled credential refresh. Call this when the AuthProvider is
+   * no longer used, e.g. at the end of a test or before a hot reload
+   * @returns {void}
+   */
+  dispose = (): void => {
+    if (this.credentialRefreshTimer) {
+      clearInterval(this.credentialRefreshTimer);
+      this.credentialRefreshTimer = null;
+    }
+  };
+
   /**
    * Initialize AuthProvider and set default routes and handlers
    * @param {InitializationOptions} options
@@ -122,12 +256,38 @@ export class AuthProvider {
   initialize = (options?: InitializationOptions): Router => {
     // TODO: initialize app defaults
 
+    if (options && options.loggerOptions) {
+      Logger.setLoggerOptions(options.loggerOptions);
+    }
+
     const appRouter = express.Router();
 
+    // request-scoped access to tokens in MSAL's cache. Only the account is kept in session
+    appRouter.use((req: Request, res: Response, next: NextFunction): void => {
+      // correlation ID is added to logs and MSAL requests for this request
+      const correlationHeader = req.get(LoggerConstants.CORRELATION_ID_HEADER);
+
+      const correlationId = ConfigurationUtils.isGuid(correlationHeader)
+        ? correlationHeader
+        : this.cryptoProvider.createNewGuid();
+
+      req.authContext = { ...req.authContext, correlationId };
+
+      req.getAccessToken = (resourceName: string): Promise<string> =>
+        this.getAccessToken(req, resourceName);
+      req.callDownstreamApi = (
+        resourceName: string,
+        options?: DownstreamApiOptions
+      ): Promise<DownstreamApiResponse> =>
+        this.callResource(req, resourceName, options);
+
+      Logger.runWithCorrelationId(correlationId, next);
+    });
+
     // handle redirect
     appRouter.get(
       UrlUtils.getPathFromUrl(this.appSettings.authRoutes.redirect),
-      this.handleRedirect()
+      this.handleRedirect(options ? options.handleRedirectOptions : undefined)
     );
 
     if (this.appSettings.authRoutes.frontChannelLogout) {
@@ -137,7 +297,9 @@ export class AuthProvider {
        */
       appRouter.get(
         this.appSettings.authRoutes.frontChannelLogout,
-        (req, res, next) => {
+        async (req, res, next) => {
+          await this.removeAccount(req.session.account);
+
           req.session.destroy(() => {
             res.sendStatus(200);
           });
@@ -148,6 +310,47 @@ export class AuthProvider {
     return appRouter;
   };
 
+  // ============== EVENTS ===============
+
+  /**
+   * Adds a listener for an authentication event
+   * @param {string} event: one of AuthEventTypes
+   * @param {Function} listener: called with the event payload
+   * @returns {AuthProvider}
+   */
+  on<E extends keyof AuthEventMap>(
+    event: E,
+    listener: (payload: AuthEventMap[E]) => void
+  ): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Adds a one-time listener for an authentication event
+   * @param {string} event: one of AuthEventTypes
+   * @param {Function} listener: called with the event payload
+   * @returns {AuthProvider}
+   */
+  once<E extends keyof AuthEventMap>(
+    event: E,
+    listener: (payload: AuthEventMap[E]) => void
+  ): this {
+    return super.once(event, listener);
+  }
+
+  /**
+   * Removes a listener for an authentication event
+   * @param {string} event: one of AuthEventTypes
+   * @param {Function} listener: listener added before
+   * @returns {AuthProvider}
+   */
+  off<E extends keyof AuthEventMap>(
+    event: E,
+    listener: (payload: AuthEventMap[E]) => void
+  ): this {
+    return super.off(event, listener);
+  }
+
   // ========== ROUTE HANDLERS ===========
 
   /**
@@ -155,31 +358,11 @@ export class AuthProvider {
    * @param {SignInOptions} options: options to modify login request
    * @returns {RequestHandler}
    */
-  signIn = (options?: SignInOptions): RequestHandler => {
-    return (req: Request, res: Response, next: NextFunction): Promise<void> => {
-      /**
-       * Request Configuration
-       * We manipulate these three request objects below
-       * to acquire a token with the appropriate claims
-       */
-      if (!req.session['authCodeRequest']) {
-        req.session.authCodeRequest = {
-          authority: '',
-          scopes: [],
-          state: {},
-          redirectUri: '',
-        } as AuthorizationUrlRequest;
-      }
-
-      if (!req.session['tokenRequest']) {
-        req.session.tokenRequest = {
-          authority: '',
-          scopes: [],
-          redirectUri: '',
-          code: '',
-        } as AuthorizationCodeRequest;
-      }
+  signIn = (options: SignInOptions = {} as SignInOptions): RequestHandler => {
+    // fail early if the policy is not configured
+    this.getAuthority(options.policy);
 
+    return (req: Request, res: Response, next: NextFunction): Promise<void> => {
       // signed-in user's account
       if (!req.session['account']) {
         req.session.account = {
@@ -191,65 +374,146 @@ export class AuthProvider {
         } as AccountInfo;
       }
 
-      // random GUID for csrf protection
-      req.session.nonce = this.cryptoProvider.createNewGuid();
-
-      // TODO: encrypt state parameter
-      const state = this.cryptoProvider.base64Encode(
-        JSON.stringify({
-          stage: AppStages.SIGN_IN,
-          path: options.successRedirect,
-          nonce: req.session.nonce,
-        })
+      // get url to sign user in
+      return this.getAuthCode(
+        req,
+        res,
+        next,
+        this.getSignInParams(req, options)
       );
+    };
+  };
+
+  /**
+   * Initiates password reset flow with the B2C password reset policy
+   * @param {SignInOptions} options: options to modify login request
+   * @returns {RequestHandler}
+   */
+  resetPassword = (options?: SignInOptions): RequestHandler => {
+    return this.signIn({
+      policy: B2CPolicyNames.RESET_PASSWORD,
+      ...options,
+    });
+  };
+
+  /**
+   * Initiates profile edit flow with the B2C profile edit policy
+   * @param {SignInOptions} options: options to modify login request
+   * @returns {RequestHandler}
+   */
+  editProfile = (options?: SignInOptions): RequestHandler => {
+    return this.signIn({
+      policy: B2CPolicyNames.EDIT_PROFILE,
+      ...options,
+    });
+  };
+
+  /**
+   * Requests consent for the scopes of a resource, e.g. when the app starts
+   * calling a new web API, without signing the user out. The access token
+   * obtained is kept in MSAL's cache, and can be read with req.getAccessToken
+   * @param {ConsentRequestOptions} options: resource to request consent for
+   * @returns {RequestHandler}
+   */
+  requestConsent = (options: ConsentRequestOptions): RequestHandler => {
+    return (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const scopes = options.resource.scopes;
 
       const params: AuthCodeParams = {
         authority: this.msalConfig.auth.authority,
-        scopes: OIDC_DEFAULT_SCOPES,
-        state: state,
+        scopes: scopes,
+        state: {
+          stage: AppStages.ACQUIRE_TOKEN,
+          path: options.successRedirect,
+          nonce: this.cryptoProvider.createNewGuid(),
+          authority: this.msalConfig.auth.authority,
+          scopes: scopes,
+        },
         redirect: UrlUtils.ensureAbsoluteUrl(
           req,
           this.appSettings.authRoutes.redirect
         ),
-        prompt: PromptValue.SELECT_ACCOUNT,
+        prompt: PromptValue.CONSENT,
+        account: req.session.account,
       };
 
-      // get url to sign user in
       return this.getAuthCode(req, res, next, params);
     };
   };
 
   /**
-   * Initiate sign out and destroy the session
+   * Initiate sign out, remove the account from the token cache and destroy the session.
+   * In B2C scenarios, the policy the user signed in with is used unless one is given
    * @param options: options to modify logout request
    * @returns {RequestHandler}
    */
-  signOut = (options?: SignOutOptions): RequestHandler => {
-    return (req: Request, res: Response, next: NextFunction): void => {
-      const postLogoutRedirectUri = UrlUtils.ensureAbsoluteUrl(
-        req,
-        options.successRedirect
-      );
+  signOut = (
+    options: SignOutOptions = {} as SignOutOptions
+  ): RequestHandler => {
+    // fail early on unknown policies
+    const policyAuthority = options.policy
+      ? this.getAuthority(options.policy)
+      : undefined;
 
-      /**
-       * Construct a logout URI and redirect the user to end the
-       * session with Azure AD/B2C. For more information, visit:
-       * (AAD) https://docs.microsoft.com/azure/active-directory/develop/v2-protocols-oidc#send-a-sign-out-request
-       * (B2C) https://docs.microsoft.com/azure/active-directory-b2c/openid-connect#send-a-sign-out-request
-       */
-      const logoutURI = `${this.msalConfig.auth.authority}/oauth2/v2.0/logout?post_logout_redirect_uri=${postLogoutRedirectUri}`;
+    return async (
+      req: Request,
+      res: Response,
+      next: NextFunction
+    ): Promise<void> => {
+      try {
+        const account = req.session.account;
+        const authority = policyAuthority || this.getAccountAuthority(account);
+
+        /**
+         * Construct a logout URI and redirect the user to end the
+         * session with Azure AD/B2C. For more information, visit:
+         * (AAD) https://docs.microsoft.com/azure/active-directory/develop/v2-protocols-oidc#send-a-sign-out-request
+         * (B2C) https://docs.microsoft.com/azure/active-directory-b2c/openid-connect#send-a-sign-out-request
+         */
+        const logoutURI = new URL(await this.getEndSessionEndpoint(authority));
+
+        logoutURI.searchParams.set(
+          OIDCConstants.POST_LOGOUT_REDIRECT_URI,
+          UrlUtils.ensureAbsoluteUrl(
+            req,
+            options.successRedirect || RouteConstants.DEFAULT_SUCCESS_REDIRECT
+          )
+        );
 
-      req.session.isAuthenticated = false;
+        if (account) {
+          const idTokenClaims = (account.idTokenClaims || {}) as IdTokenClaims;
 
-      req.session.destroy(() => {
-        res.redirect(logoutURI);
-      });
+          // login_hint is an optional claim, to be configured on the app registration
+          if (idTokenClaims[OIDCConstants.LOGIN_HINT_CLAIM]) {
+            logoutURI.searchParams.set(
+              OIDCConstants.LOGOUT_HINT,
+              idTokenClaims[OIDCConstants.LOGIN_HINT_CLAIM]
+            );
+          }
+        }
+
+        await this.removeAccount(account);
+
+        this.emitEvent(AuthEventTypes.SIGNED_OUT, {
+          req,
+          account: account,
+        });
+
+        req.session.isAuthenticated = false;
+
+        req.session.destroy(() => {
+          res.redirect(logoutURI.toString());
+        });
+      } catch (error) {
+        next(error);
+      }
     };
   };
 
   /**
    * Middleware that handles redirect depending on request state
-   * There are basically 2 stages: sign-in and acquire token
+   * There are basically 2 stages: sign-in and acquire token.
+   * The B2C policy of the flow, if any, is carried in state
    * @param {HandleRedirectOptions} options: options to modify this middleware
    * @returns {RequestHandler}
    */
@@ -262,80 +526,205 @@ export class AuthProvider {
       next: NextFunction
     ): Promise<void> => {
       if (req.query.state) {
-        const state = JSON.parse(
-          this.cryptoProvider.base64Decode(req.query.state as string)
-        );
+        let state: State;
+        let authFlow: AuthFlow;
+
+        // state is encrypted and signed, so reject it if it cannot be verified
+        try {
+          state = this.stateManager.decodeState(req.query.state as string);
+
+          // state is single-use, and only accepted from the session that started the flow
+          authFlow = this.completeAuthFlow(req, state.flowId);
+
+          if (!authFlow) {
+            throw new Error(ErrorMessages.STATE_NOT_BOUND);
+          }
+        } catch (error) {
+          Logger.logError(error.message);
+          this.emitEvent(AuthEventTypes.SIGN_IN_FAILED, {
+            req,
+            reason: error.message,
+          });
+          return res.redirect(this.appSettings.authRoutes.unauthorized);
+        }
+
+        if (req.query.error) {
+          /**
+           * B2C returns AADB2C90118 when the user selects "forgot password"
+           * on the sign-in page. Start the password reset flow instead. See:
+           * https://docs.microsoft.com/azure/active-directory-b2c/add-password-reset-policy
+           */
+          if (
+            req.query.error_description &&
+            (req.query.error_description as string).includes(
+              ErrorCodes[90118]
+            ) &&
+            this.appSettings.b2cPolicies &&
+            this.appSettings.b2cPolicies[B2CPolicyNames.RESET_PASSWORD]
+          ) {
+            return this.getAuthCode(
+              req,
+              res,
+              next,
+              this.getSignInParams(req, {
+                successRedirect: state.path,
+                policy: B2CPolicyNames.RESET_PASSWORD,
+              })
+            );
+          }
+
+          Logger.logError(
+            (req.query.error_description as string) ||
+              (req.query.error as string)
+          );
+
+          if (state.stage === AppStages.SIGN_IN) {
+            this.emitEvent(AuthEventTypes.SIGN_IN_FAILED, {
+              req,
+              reason: req.query.error as string,
+              errors: [req.query.error_description as string],
+              policy: state.policy,
+            });
+          }
+
+          return res.redirect(this.appSettings.authRoutes.error);
+        }
 
-        // check if nonce matches
-        if (state.nonce === req.session.nonce) {
-          switch (state.stage) {
-            case AppStages.SIGN_IN: {
-              // token request should have auth code
-              req.session.tokenRequest.code = req.query.code as string;
+        // token request is rebuilt from state, as this may be a different node
+        const tokenRequest: AuthorizationCodeRequest = {
+          authority: state.authority,
+          scopes: state.scopes,
+          redirectUri: UrlUtils.ensureAbsoluteUrl(
+            req,
+            this.appSettings.authRoutes.redirect
+          ),
+          code: req.query.code as string,
+          codeVerifier: authFlow.codeVerifier,
+          claims: state.claims,
+          correlationId: Logger.getCorrelationId(),
+        };
+
+        switch (state.stage) {
+          case AppStages.SIGN_IN: {
+            try {
+              // exchange auth code for tokens
+              const tokenResponse = await this.callMsalClient(msalClient =>
+                msalClient.acquireTokenByCode(tokenRequest)
+              );
 
               try {
-                // exchange auth code for tokens
-                const tokenResponse = await this.msalClient.acquireTokenByCode(
-                  req.session.tokenRequest
-                );
-
-                try {
-                  const isIdTokenValid =
-                    await this.tokenValidator.validateIdToken(
-                      tokenResponse.idToken
-                    );
-
-                  if (isIdTokenValid) {
-                    // assign session variables
-                    req.session.account = tokenResponse.account;
-                    req.session.isAuthenticated = true;
-
-                    res.redirect(state.path);
-                  } else {
-                    Logger.logError(ErrorMessages.INVALID_TOKEN);
-                    res.redirect(this.appSettings.authRoutes.unauthorized);
+                const validationResult =
+                  await this.tokenValidator.validateIdToken(
+                    tokenResponse.idToken,
+                    state.nonce
+                  );
+
+                if (validationResult.isValid) {
+                  let hookResult: SignInHookResult | void;
+
+                  try {
+                    hookResult = await this.runSignInHooks(req, options, {
+                      account: tokenResponse.account,
+                      claims: validationResult.claims as IdTokenClaims,
+                      policy: state.policy,
+                    });
+                  } catch (error) {
+                    Logger.logError(ErrorMessages.SIGN_IN_HOOK_FAILED);
+                    this.emitEvent(AuthEventTypes.SIGN_IN_FAILED, {
+                      req,
+                      reason: ErrorMessages.SIGN_IN_HOOK_FAILED,
+                      errors: [error.message],
+                      claims: validationResult.claims as IdTokenClaims,
+                      policy: state.policy,
+                    });
+                    return next(error);
+                  }
+
+                  if (hookResult && hookResult.redirect) {
+                    Logger.logWarning(ErrorMessages.SIGN_IN_REJECTED);
+                    this.emitEvent(AuthEventTypes.SIGN_IN_FAILED, {
+                      req,
+                      reason: ErrorMessages.SIGN_IN_REJECTED,
+                      claims: validationResult.claims as IdTokenClaims,
+                      policy: state.policy,
+                    });
+                    return res.redirect(hookResult.redirect);
                   }
-                } catch (error) {
-                  Logger.logError(ErrorMessages.CANNOT_VALIDATE_TOKEN);
-                  next(error);
+
+                  // assign session variables
+                  req.session.account = tokenResponse.account;
+                  req.session.isAuthenticated = true;
+
+                  this.emitEvent(AuthEventTypes.SIGN_IN_SUCCEEDED, {
+                    req,
+                    account: tokenResponse.account,
+                    claims: validationResult.claims as IdTokenClaims,
+                    policy: state.policy,
+                  });
+
+                  res.redirect(state.path);
+                } else {
+                  Logger.logError(ErrorMessages.INVALID_TOKEN);
+
+                  this.emitEvent(AuthEventTypes.SIGN_IN_FAILED, {
+                    req,
+                    reason: ErrorMessages.INVALID_TOKEN,
+                    errors: validationResult.errors,
+                    claims: validationResult.claims as IdTokenClaims,
+                    policy: state.policy,
+                  });
+
+                  res.redirect(this.appSettings.authRoutes.unauthorized);
                 }
               } catch (error) {
-                Logger.logError(ErrorMessages.TOKEN_ACQUISITION_FAILED);
+                Logger.logError(ErrorMessages.CANNOT_VALIDATE_TOKEN);
+                this.emitEvent(AuthEventTypes.SIGN_IN_FAILED, {
+                  req,
+                  reason: ErrorMessages.CANNOT_VALIDATE_TOKEN,
+                  errors: [error.message],
+                  policy: state.policy,
+                });
                 next(error);
               }
-              break;
+            } catch (error) {
+              Logger.logError(ErrorMessages.TOKEN_ACQUISITION_FAILED);
+              this.emitEvent(AuthEventTypes.SIGN_IN_FAILED, {
+                req,
+                reason: ErrorMessages.TOKEN_ACQUISITION_FAILED,
+                errors: [error.message],
+                policy: state.policy,
+              });
+              next(error);
             }
+            break;
+          }
 
-            case AppStages.ACQUIRE_TOKEN: {
-              // get the name of the resource associated with scope
-              const resourceName = this.getResourceNameFromScopes(
-                req.session.tokenRequest.scopes
+          case AppStages.ACQUIRE_TOKEN: {
+            try {
+              // tokens are kept in MSAL's cache, and read from there on return
+              const tokenResponse = await this.callMsalClient(msalClient =>
+                msalClient.acquireTokenByCode(tokenRequest)
               );
 
-              req.session.tokenRequest.code = req.query.code as string;
-
-              try {
-                const tokenResponse = await this.msalClient.acquireTokenByCode(
-                  req.session.tokenRequest
-                );
-                req.session.remoteResources[resourceName].accessToken =
-                  tokenResponse.accessToken;
-                res.redirect(state.path);
-              } catch (error) {
-                Logger.logError(ErrorMessages.TOKEN_ACQUISITION_FAILED);
-                next(error);
-              }
-              break;
+              this.emitEvent(AuthEventTypes.TOKEN_ACQUIRED, {
+                req,
+                resource: this.getResourceNameFromScopes(state.scopes),
+                scopes: state.scopes,
+                account: tokenResponse.account,
+              });
+
+              res.redirect(state.path);
+            } catch (error) {
+              Logger.logError(ErrorMessages.TOKEN_ACQUISITION_FAILED);
+              next(error);
             }
-
-            default:
-              Logger.logError(ErrorMessages.CANNOT_DETERMINE_APP_STAGE);
-              res.redirect(this.appSettings.authRoutes.error);
-              break;
+            break;
           }
-        } else {
-          Logger.logError(ErrorMessages.NONCE_MISMATCH);
-          res.redirect(this.appSettings.authRoutes.unauthorized);
+
+          default:
+            Logger.logError(ErrorMessages.CANNOT_DETERMINE_APP_STAGE);
+            res.redirect(this.appSettings.authRoutes.error);
+            break;
         }
       } else {
         Logger.logError(ErrorMessages.STATE_NOT_FOUND);
@@ -362,55 +751,38 @@ export class AuthProvider {
 
       const resourceName = this.getResourceNameFromScopes(scopes);
 
-      if (!req.session.remoteResources) {
-        req.session.remoteResources = {};
-      }
-
-      req.session.remoteResources = {
-        [resourceName]: {
-          ...this.appSettings.remoteResources[resourceName],
-          accessToken: null,
-        } as Resource,
-      };
-
       try {
-        const silentRequest: SilentFlowRequest = {
+        // a claims challenge makes MSAL bypass cached access tokens
+        const accessToken = await this.acquireTokenSilently(req, {
           account: req.session.account,
           scopes: scopes,
+          claims: options.claims,
+          forceRefresh: options.skipCache,
+        });
+
+        req.authContext = {
+          ...req.authContext,
+          tokens: {
+            ...(req.authContext && req.authContext.tokens),
+            [resourceName]: accessToken,
+          },
         };
 
-        // acquire token silently to be used in resource call
-        const tokenResponse = await this.msalClient.acquireTokenSilent(
-          silentRequest
-        );
-
-        // In B2C scenarios, sometimes an access token is returned empty.
-        // In that case, we will acquire token interactively instead.
-        if (StringUtils.isEmpty(tokenResponse.accessToken)) {
-          Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
-          throw new InteractionRequiredAuthError(
-            ErrorMessages.INTERACTION_REQUIRED
-          );
-        }
-
-        req.session.remoteResources[resourceName].accessToken =
-          tokenResponse.accessToken;
         next();
       } catch (error) {
         // in case there are no cached tokens, initiate an interactive call
         if (error instanceof InteractionRequiredAuthError) {
-          const state = this.cryptoProvider.base64Encode(
-            JSON.stringify({
-              stage: AppStages.ACQUIRE_TOKEN,
-              path: req.originalUrl,
-              nonce: req.session.nonce,
-            })
-          );
-
           const params: AuthCodeParams = {
             authority: this.msalConfig.auth.authority,
             scopes: scopes,
-            state: state,
+            state: {
+              stage: AppStages.ACQUIRE_TOKEN,
+              path: req.originalUrl,
+              nonce: this.cryptoProvider.createNewGuid(),
+              authority: this.msalConfig.auth.authority,
+              scopes: scopes,
+              claims: options.claims,
+            },
             redirect: UrlUtils.ensureAbsoluteUrl(
               req,
               this.appSettings.authRoutes.redirect
@@ -428,104 +800,353 @@ export class AuthProvider {
   };
 
   /**
-   * Middleware that gets tokens via OBO flow. Used in web API scenarios
-   * @param {TokenRequestOptions} options: options to modify this middleware
+   * Middleware that gets tokens for several resources in remoteResources at once.
+   * Tokens are acquired silently where possible, and a single interactive
+   * request asks for consent to all remaining resources. Tokens are then
+   * available via req.authContext.tokens
+   * @param {TokensRequestOptions} options: names of resources in remoteResources
    * @returns {RequestHandler}
    */
-  getTokenOnBehalf = (options: TokenRequestOptions): RequestHandler => {
+  getTokens = (options: TokensRequestOptions): RequestHandler => {
     return async (
       req: Request,
       res: Response,
       next: NextFunction
     ): Promise<void> => {
-      const authHeader = req.headers.authorization;
+      const tokens: { [resource: string]: string } = {};
+      const pendingResources: Resource[] = [];
 
-      // get scopes for token request
-      const scopes = options.resource.scopes;
-      const resourceName = this.getResourceNameFromScopes(scopes);
+      for (const resourceName of options.resources) {
+        const resource = this.appSettings.remoteResources
+          ? this.appSettings.remoteResources[resourceName]
+          : undefined;
 
-      const oboRequest: OnBehalfOfRequest = {
-        oboAssertion: authHeader.split(' ')[1],
-        scopes: scopes,
-      };
+        if (!resource) {
+          return next(
+            new Error(`${ErrorMessages.RESOURCE_NOT_FOUND}: ${resourceName}`)
+          );
+        }
 
-      try {
-        const tokenResponse = await this.msalClient.acquireTokenOnBehalfOf(
-          oboRequest
-        );
+        try {
+          tokens[resourceName] = await this.acquireTokenSilently(req, {
+            account: req.session.account,
+            scopes: resource.scopes,
+          });
+        } catch (error) {
+          if (error instanceof InteractionRequiredAuthError) {
+            pendingResources.push(resource);
+          } else {
+            return next(error);
+          }
+        }
+      }
 
-        // as OBO is commonly used in middle-tier web APIs without sessions, attach AT to req
-        req['locals'] = {
-          [resourceName]: {
-            accessToken: tokenResponse.accessToken,
+      if (pendingResources.length === 0) {
+        req.authContext = {
+          ...req.authContext,
+          tokens: {
+            ...(req.authContext && req.authContext.tokens),
+            ...tokens,
           },
         };
 
-        next();
-      } catch (error) {
-        next(error);
+        return next();
       }
+
+      // token for the first resource is redeemed, while the rest are only consented to.
+      // on return to this route, tokens for all resources can be acquired silently
+      const [firstResource, ...otherResources] = pendingResources;
+
+      const params: AuthCodeParams = {
+        authority: this.msalConfig.auth.authority,
+        scopes: firstResource.scopes,
+        state: {
+          stage: AppStages.ACQUIRE_TOKEN,
+          path: req.originalUrl,
+          nonce: this.cryptoProvider.createNewGuid(),
+          authority: this.msalConfig.auth.authority,
+          scopes: firstResource.scopes,
+        },
+        redirect: UrlUtils.ensureAbsoluteUrl(
+          req,
+          this.appSettings.authRoutes.redirect
+        ),
+        account: req.session.account,
+        extraScopesToConsent: otherResources.reduce(
+          (scopes: string[], resource: Resource) => [
+            ...scopes,
+            ...resource.scopes,
+          ],
+          []
+        ),
+      };
+
+      return this.getAuthCode(req, res, next, params);
     };
   };
 
-  // ============== GUARDS ===============
-
   /**
-   * Check if authenticated in session
-   * @param {GuardOptions} options: options to modify this middleware
-   * @returns {RequestHandler}
+   * Handles a claims challenge returned by a web API, e.g. when Conditional Access
+   * or continuous access evaluation (CAE) revokes a token. Restarts token acquisition
+   * for the resource interactively with the claims requested, after which the user
+   * returns to the current route. Requires the "cp1" client capability for CAE
+   * @param {Request} req: express request object
+   * @param {Response} res: express response object
+   * @param {NextFunction} next: express next function
+   * @param {ClaimsChallengeOptions} options: resource and WWW-Authenticate header value
+   * @returns {Promise}
    */
-  isAuthenticated = (options?: GuardOptions): RequestHandler => {
-    return (req: Request, res: Response, next: NextFunction): void => {
-      if (req.session) {
-        if (!req.session.isAuthenticated) {
-          Logger.logError(ErrorMessages.NOT_PERMITTED);
-          return res.redirect(this.appSettings.authRoutes.unauthorized);
-        }
+  handleClaimsChallenge = (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    options: ClaimsChallengeOptions
+  ): Promise<void> => {
+    const claims = FetchManager.getClaimsChallenge(options.wwwAuthenticate);
+
+    if (!claims) {
+      Logger.logError(ErrorMessages.CLAIMS_CHALLENGE_NOT_FOUND);
+      next(new Error(ErrorMessages.CLAIMS_CHALLENGE_NOT_FOUND));
+      return Promise.resolve();
+    }
 
-        next();
-      } else {
-        Logger.logError(ErrorMessages.SESSION_NOT_FOUND);
-        res.redirect(this.appSettings.authRoutes.unauthorized);
-      }
+    const scopes = options.resource.scopes;
+
+    const params: AuthCodeParams = {
+      authority: this.msalConfig.auth.authority,
+      scopes: scopes,
+      state: {
+        stage: AppStages.ACQUIRE_TOKEN,
+        path: req.originalUrl,
+        nonce: this.cryptoProvider.createNewGuid(),
+        authority: this.msalConfig.auth.authority,
+        scopes: scopes,
+        claims: claims,
+      },
+      redirect: UrlUtils.ensureAbsoluteUrl(
+        req,
+        this.appSettings.authRoutes.redirect
+      ),
+      account: req.session.account,
     };
+
+    return this.getAuthCode(req, res, next, params);
   };
 
   /**
-   * Receives access token in req authorization header
-   * and validates it using the jwt.verify
-   * @param {GuardOptions} options: options to modify this middleware
+   * Middleware that calls a web API in remoteResources with the signed-in user's
+   * access token. The response is available via req.authContext.responses. If the
+   * user needs to consent or satisfy a claims challenge, they are redirected to do
+   * so and returned to the current route
+   * @param {string} resourceName: name of a resource in remoteResources
+   * @param {DownstreamApiOptions} options: method, path, body and headers of the request
    * @returns {RequestHandler}
    */
-  isAuthorized = (options?: GuardOptions): RequestHandler => {
+  callDownstreamApi = (
+    resourceName: string,
+    options?: DownstreamApiOptions
+  ): RequestHandler => {
     return async (
       req: Request,
       res: Response,
       next: NextFunction
     ): Promise<void> => {
-      const accessToken = req.headers.authorization.split(' ')[1];
+      try {
+        const response = await this.callResource(req, resourceName, options);
 
-      if (req.headers.authorization) {
-        if (
-          !(await this.tokenValidator.verifyAccessTokenSignature(
-            accessToken,
-            `${req.baseUrl}${req.path}`
-          ))
-        ) {
+        req.authContext = {
+          ...req.authContext,
+          responses: {
+            ...(req.authContext && req.authContext.responses),
+            [resourceName]: response,
+          },
+        };
+
+        next();
+      } catch (error) {
+        const resource = this.getRemoteResource(resourceName);
+
+        if (!resource) {
+          return next(error);
+        }
+
+        if (error instanceof DownstreamApiError && error.claimsChallenge) {
+          return this.handleClaimsChallenge(req, res, next, {
+            resource: resource,
+            wwwAuthenticate:
+              error.headers[ClaimsChallengeConstants.WWW_AUTHENTICATE_HEADER],
+          });
+        }
+
+        if (error instanceof InteractionRequiredAuthError) {
+          const params: AuthCodeParams = {
+            authority: this.msalConfig.auth.authority,
+            scopes: resource.scopes,
+            state: {
+              stage: AppStages.ACQUIRE_TOKEN,
+              path: req.originalUrl,
+              nonce: this.cryptoProvider.createNewGuid(),
+              authority: this.msalConfig.auth.authority,
+              scopes: resource.scopes,
+            },
+            redirect: UrlUtils.ensureAbsoluteUrl(
+              req,
+              this.appSettings.authRoutes.redirect
+            ),
+            account: req.session.account,
+          };
+
+          return this.getAuthCode(req, res, next, params);
+        }
+
+        next(error);
+      }
+    };
+  };
+
+  /**
+   * Middleware that gets tokens via OBO flow. Used in web API scenarios
+   * @param {TokenRequestOptions} options: options to modify this middleware
+   * @returns {RequestHandler}
+   */
+  getTokenOnBehalf = (options: TokenRequestOptions): RequestHandler => {
+    return async (
+      req: Request,
+      res: Response,
+      next: NextFunction
+    ): Promise<void> => {
+      const authHeader = req.headers.authorization;
+
+      // get scopes for token request
+      const scopes = options.resource.scopes;
+      const resourceName = this.getResourceNameFromScopes(scopes);
+
+      const oboRequest: OnBehalfOfRequest = {
+        oboAssertion: authHeader.split(' ')[1],
+        scopes: scopes,
+        correlationId: Logger.getCorrelationId(),
+      };
+
+      try {
+        const tokenResponse = await this.callMsalClient(msalClient =>
+          msalClient.acquireTokenOnBehalfOf(oboRequest)
+        );
+
+        this.emitEvent(AuthEventTypes.TOKEN_ACQUIRED, {
+          req,
+          resource: resourceName,
+          scopes: scopes,
+          account: tokenResponse.account,
+        });
+
+        // as OBO is commonly used in middle-tier web APIs without sessions, attach AT to req
+        req['locals'] = {
+          [resourceName]: {
+            accessToken: tokenResponse.accessToken,
+          },
+        };
+
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  };
+
+  // ============== GUARDS ===============
+
+  /**
+   * Check if authenticated in session
+   * @param {GuardOptions} options: options to modify this middleware
+   * @returns {RequestHandler}
+   */
+  isAuthenticated = (options?: GuardOptions): RequestHandler => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (req.session) {
+        if (!req.session.isAuthenticated) {
+          Logger.logError(ErrorMessages.NOT_AUTHENTICATED);
+          return this.rejectRequest(
+            req,
+            res,
+            options,
+            HttpStatusCodes.UNAUTHORIZED,
+            ErrorMessages.NOT_AUTHENTICATED
+          );
+        }
+
+        next();
+      } else {
+        Logger.logError(ErrorMessages.SESSION_NOT_FOUND);
+        this.rejectRequest(
+          req,
+          res,
+          options,
+          HttpStatusCodes.UNAUTHORIZED,
+          ErrorMessages.SESSION_NOT_FOUND
+        );
+      }
+    };
+  };
+
+  /**
+   * Receives access token in req authorization header
+   * and validates it using the jwt.verify. Verified
+   * claims are attached to req.authContext
+   * @param {GuardOptions} options: options to modify this middleware
+   * @returns {RequestHandler}
+   */
+  isAuthorized = (options?: GuardOptions): RequestHandler => {
+    return async (
+      req: Request,
+      res: Response,
+      next: NextFunction
+    ): Promise<void> => {
+      if (req.headers.authorization) {
+        const accessToken = req.headers.authorization.split(' ')[1];
+
+        const validationResult = await this.tokenValidator.verifyAccessTokenSignature(
+          accessToken,
+          `${req.baseUrl}${req.path}`
+        );
+
+        if (!validationResult.isValid) {
           Logger.logError(ErrorMessages.INVALID_TOKEN);
-          return res.redirect(this.appSettings.authRoutes.unauthorized);
+          return this.rejectRequest(
+            req,
+            res,
+            options,
+            HttpStatusCodes.UNAUTHORIZED,
+            validationResult.errors.join('; '),
+            BearerErrorCodes.INVALID_TOKEN
+          );
         }
 
+        // make verified claims available to guards downstream
+        req.authContext = {
+          ...req.authContext,
+          accessToken: accessToken,
+          accessTokenClaims: validationResult.claims as AccessTokenClaims,
+        };
+
         next();
       } else {
         Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
-        res.redirect(this.appSettings.authRoutes.unauthorized);
+        this.rejectRequest(
+          req,
+          res,
+          options,
+          HttpStatusCodes.UNAUTHORIZED,
+          ErrorMessages.TOKEN_NOT_FOUND
+        );
       }
     };
   };
 
   /**
-   * Checks if the user has access for this route, defined in access matrix
+   * Checks if the user has access for this route, defined in access matrix.
+   * If no access rule is given, the most specific rule in access matrix
+   * whose path matches the request path is enforced. Claims are read from
+   * the access token verified by isAuthorized, or else from the session
    * @param {GuardOptions} options: options to modify this middleware
    * @returns {RequestHandler}
    */
@@ -535,92 +1156,173 @@ export class AuthProvider {
       res: Response,
       next: NextFunction
     ): Promise<any> => {
-      if (req.session && this.appSettings.accessMatrix) {
-        const checkFor = options.accessRule.hasOwnProperty(
-          AccessConstants.GROUPS
-        )
-          ? AccessConstants.GROUPS
-          : AccessConstants.ROLES;
-
-        switch (checkFor) {
-          case AccessConstants.GROUPS:
-            if (
-              req.session.account.idTokenClaims[AccessConstants.GROUPS] ===
-              undefined
-            ) {
-              if (
-                req.session.account.idTokenClaims[
-                  AccessConstants.CLAIM_NAMES
-                ] ||
-                req.session.account.idTokenClaims[AccessConstants.CLAIM_SOURCES]
-              ) {
-                Logger.logWarning(InfoMessages.OVERAGE_OCCURRED);
-                return await this.handleOverage(
-                  req,
-                  res,
-                  next,
-                  options.accessRule
-                );
-              } else {
-                Logger.logError(ErrorMessages.USER_HAS_NO_GROUP);
-                return res.redirect(this.appSettings.authRoutes.unauthorized);
-              }
-            } else {
-              const groups =
-                req.session.account.idTokenClaims[AccessConstants.GROUPS];
-
-              if (
-                !this.checkAccessRule(
-                  req.method,
-                  options.accessRule,
-                  groups,
-                  AccessConstants.GROUPS
-                )
-              ) {
-                return res.redirect(this.appSettings.authRoutes.unauthorized);
-              }
-            }
+      // use the given rule, or look one up in the access matrix
+      const accessRule =
+        options && options.accessRule
+          ? options.accessRule
+          : this.appSettings.accessMatrix
+          ? this.getAccessRule(req)
+          : undefined;
+
+      // routes without a rule are public, unless failing closed
+      if (!accessRule && !(options && options.failClosed)) {
+        return next();
+      }
 
-            next();
-            break;
+      const claims = this.getRequestClaims(req);
 
-          case AccessConstants.ROLES:
-            if (
-              req.session.account.idTokenClaims[AccessConstants.ROLES] ===
-              undefined
-            ) {
-              Logger.logError(ErrorMessages.USER_HAS_NO_ROLE);
-              return res.redirect(this.appSettings.authRoutes.unauthorized);
-            } else {
-              const roles =
-                req.session.account.idTokenClaims[AccessConstants.ROLES];
-
-              if (
-                !this.checkAccessRule(
-                  req.method,
-                  options.accessRule,
-                  roles,
-                  AccessConstants.ROLES
-                )
-              ) {
-                return res.redirect(this.appSettings.authRoutes.unauthorized);
-              }
-            }
+      if (!claims) {
+        Logger.logError(ErrorMessages.NOT_AUTHENTICATED);
+        return this.rejectRequest(
+          req,
+          res,
+          options,
+          HttpStatusCodes.UNAUTHORIZED,
+          ErrorMessages.NOT_AUTHENTICATED
+        );
+      }
 
-            next();
-            break;
+      if (!accessRule) {
+        Logger.logError(ErrorMessages.RULE_NOT_FOUND);
+        return this.rejectRequest(
+          req,
+          res,
+          options,
+          HttpStatusCodes.FORBIDDEN,
+          ErrorMessages.RULE_NOT_FOUND,
+          BearerErrorCodes.INSUFFICIENT_SCOPE
+        );
+      }
 
-          default:
-            break;
+      let groups: string[] = claims[AccessConstants.GROUPS];
+
+      if (
+        accessRule.groups &&
+        groups === undefined &&
+        (claims[AccessConstants.CLAIM_NAMES] ||
+          claims[AccessConstants.CLAIM_SOURCES])
+      ) {
+        Logger.logWarning(InfoMessages.OVERAGE_OCCURRED);
+
+        try {
+          groups = await this.handleOverage(req);
+        } catch (error) {
+          return next(error);
         }
-      } else {
-        res.redirect(this.appSettings.authRoutes.unauthorized);
       }
+
+      // only access tokens can be app-only, session claims are always a user's
+      const accessTokenClaims =
+        req.authContext && req.authContext.accessTokenClaims;
+
+      const isAppOnly =
+        !!accessTokenClaims &&
+        (accessTokenClaims.idtyp === AccessConstants.APP_ONLY_TOKEN_TYPE ||
+          !accessTokenClaims.scp);
+
+      if (
+        !this.checkAccessRule(
+          req.method,
+          accessRule,
+          { ...claims, groups },
+          isAppOnly
+        )
+      ) {
+        return this.rejectRequest(
+          req,
+          res,
+          options,
+          HttpStatusCodes.FORBIDDEN,
+          ErrorMessages.NOT_PERMITTED,
+          BearerErrorCodes.INSUFFICIENT_SCOPE
+        );
+      }
+
+      next();
     };
   };
 
   // ============== UTILS ===============
 
+  /**
+   * Builds the auth code url parameters for a sign-in flow. Extra scopes
+   * are consented to up front, while only OIDC scopes are redeemed
+   * @param {Request} req: express request object
+   * @param {SignInOptions} options: options to modify login request
+   * @returns {AuthCodeParams}
+   */
+  private getSignInParams(
+    req: Request,
+    options: SignInOptions
+  ): AuthCodeParams {
+    const authority = this.getAuthority(options.policy);
+
+    return {
+      authority: authority,
+      scopes: OIDC_DEFAULT_SCOPES,
+      state: {
+        stage: AppStages.SIGN_IN,
+        path:
+          options.successRedirect || RouteConstants.DEFAULT_SUCCESS_REDIRECT,
+        nonce: this.cryptoProvider.createNewGuid(), // random GUID for csrf protection
+        authority: authority,
+        scopes: OIDC_DEFAULT_SCOPES,
+        policy: options.policy,
+      },
+      redirect: UrlUtils.ensureAbsoluteUrl(
+        req,
+        this.appSettings.authRoutes.redirect
+      ),
+      prompt: PromptValue.SELECT_ACCOUNT,
+      extraScopesToConsent: options.extraScopesToConsent,
+    };
+  }
+
+  /**
+   * Gets the authority for a given B2C policy, or the default authority
+   * @param {string} policy: name of a policy in b2cPolicies
+   * @returns {string}
+   */
+  private getAuthority(policy?: string): string {
+    if (!policy) {
+      return this.msalConfig.auth.authority;
+    }
+
+    if (
+      !this.appSettings.b2cPolicies ||
+      !this.appSettings.b2cPolicies[policy]
+    ) {
+      throw new Error(`${ErrorMessages.POLICY_NOT_FOUND}: ${policy}`);
+    }
+
+    return this.appSettings.b2cPolicies[policy].authority;
+  }
+
+  /**
+   * Runs sign-in hooks in order, until one of them rejects the sign-in
+   * @param {Request} req: express request object
+   * @param {HandleRedirectOptions} options: options with the sign-in hooks
+   * @param {SignInHookContext} context: account and validated ID token claims
+   * @returns {Promise}
+   */
+  private async runSignInHooks(
+    req: Request,
+    options: HandleRedirectOptions,
+    context: SignInHookContext
+  ): Promise<SignInHookResult | void> {
+    if (!options || !options.signInHooks) {
+      return;
+    }
+
+    for (const hook of options.signInHooks) {
+      const result = await hook(req, context);
+
+      if (result && result.redirect) {
+        return result;
+      }
+    }
+  }
+
   /**
    * This method is used to generate an auth code url request
    * @param {Request} req: express request object
@@ -635,23 +1337,44 @@ export class AuthProvider {
     next: NextFunction,
     params: AuthCodeParams
   ): Promise<void> {
-    // prepare the request
-    req.session.authCodeRequest.authority = params.authority;
-    req.session.authCodeRequest.scopes = params.scopes;
-    req.session.authCodeRequest.state = params.state;
-    req.session.authCodeRequest.redirectUri = params.redirect;
-    req.session.authCodeRequest.prompt = params.prompt;
-    req.session.authCodeRequest.account = params.account;
-
-    req.session.tokenRequest.authority = params.authority;
-    req.session.tokenRequest.scopes = params.scopes;
-    req.session.tokenRequest.redirectUri = params.redirect;
+    if (params.state.stage === AppStages.ACQUIRE_TOKEN) {
+      this.emitEvent(AuthEventTypes.INTERACTION_REQUIRED, {
+        req,
+        resource: this.getResourceNameFromScopes(params.scopes),
+        scopes: params.scopes,
+        claims: params.state.claims,
+      });
+    }
 
     // request an authorization code to exchange for tokens
     try {
-      const response = await this.msalClient.getAuthCodeUrl(
-        req.session.authCodeRequest
-      );
+      /**
+       * PKCE is used for every leg of the flow. The verifier is kept in session,
+       * as state comes back in the same redirect as the code. See:
+       * https://docs.microsoft.com/azure/active-directory/develop/v2-oauth2-auth-code-flow
+       */
+      const pkceCodes = await this.cryptoProvider.generatePkceCodes();
+
+      // prepare the request
+      const authCodeRequest: AuthorizationUrlRequest = {
+        authority: params.authority,
+        scopes: params.scopes,
+        state: this.stateManager.encodeState({
+          ...params.state,
+          flowId: this.startAuthFlow(req, pkceCodes.verifier),
+        }),
+        redirectUri: params.redirect,
+        prompt: params.prompt,
+        account: params.account,
+        nonce: params.state.nonce,
+        extraScopesToConsent: params.extraScopesToConsent,
+        claims: params.state.claims,
+        correlationId: Logger.getCorrelationId(),
+        codeChallenge: pkceCodes.challenge,
+        codeChallengeMethod: Constants.S256_CODE_CHALLENGE_METHOD,
+      };
+
+      const response = await this.msalClient.getAuthCodeUrl(authCodeRequest);
       res.redirect(response);
     } catch (error) {
       Logger.logError(ErrorMessages.AUTH_CODE_NOT_OBTAINED);
@@ -660,160 +1383,893 @@ export class AuthProvider {
   }
 
   /**
-   * Handles group overage claims by querying MS Graph /memberOf endpoint
+   * Records a pending auth code flow in session, which binds its state to this
+   * browser. Expired flows are pruned, and the oldest are evicted past the limit
    * @param {Request} req: express request object
-   * @param {Response} res: express response object
-   * @param {NextFunction} next: express next function
-   * @param {AccessRule} rule: a given access rule
-   * @returns {Promise}
+   * @param {string} codeVerifier: PKCE code verifier of the flow
+   * @returns {string} ID of the flow, to carry in state
    */
-  private async handleOverage(
-    req: Request,
-    res: Response,
-    next: NextFunction,
-    rule: AccessRule
-  ): Promise<void> {
-    const { _claim_names, _claim_sources, ...newIdTokenClaims } = <any>(
-      req.session.account.idTokenClaims
-    );
-
-    const silentRequest: SilentFlowRequest = {
-      account: req.session.account,
-      scopes: AccessConstants.GRAPH_MEMBER_SCOPES.split(' '),
+  private startAuthFlow(req: Request, codeVerifier: string): string {
+    const flowId = this.cryptoProvider.createNewGuid();
+
+    const pendingFlows = Object.entries(req.session.authFlows || {})
+      .filter(([, authFlow]) => authFlow.expiresOn > Date.now())
+      .slice(-(StateConstants.MAX_PENDING_FLOWS - 1));
+
+    req.session.authFlows = {
+      ...Object.fromEntries(pendingFlows),
+      [flowId]: {
+        codeVerifier: codeVerifier,
+        expiresOn: Date.now() + this.stateManager.expiresIn * 1000,
+      },
     };
 
-    try {
-      // acquire token silently to be used in resource call
-      const tokenResponse = await this.msalClient.acquireTokenSilent(
-        silentRequest
-      );
-      try {
-        const graphResponse = await FetchManager.callApiEndpoint(
-          AccessConstants.GRAPH_MEMBERS_ENDPOINT,
-          tokenResponse.accessToken
-        );
-
-        /**
-         * Some queries against Microsoft Graph return multiple pages of data either due to server-side paging
-         * or due to the use of the $top query parameter to specifically limit the page size in a request.
-         * When a result set spans multiple pages, Microsoft Graph returns an @odata.nextLink property in
-         * the response that contains a URL to the next page of results. Learn more at https://docs.microsoft.com/graph/paging
-         */
-        if (graphResponse[AccessConstants.PAGINATION_LINK]) {
-          try {
-            const userGroups = await FetchManager.handlePagination(
-              tokenResponse.accessToken,
-              graphResponse[AccessConstants.PAGINATION_LINK]
-            );
-
-            req.session.account.idTokenClaims = {
-              ...newIdTokenClaims,
-              groups: userGroups,
-            };
-
-            if (
-              !this.checkAccessRule(
-                req.method,
-                rule,
-                req.session.account.idTokenClaims[AccessConstants.GROUPS],
-                AccessConstants.GROUPS
-              )
-            ) {
-              return res.redirect(this.appSettings.authRoutes.unauthorized);
-            } else {
-              return next();
-            }
-          } catch (error) {
-            next(error);
-          }
-        } else {
-          req.session.account.idTokenClaims = {
-            ...newIdTokenClaims,
-            groups: graphResponse['value'].map((v) => v.id),
-          };
+    return flowId;
+  }
 
-          if (
-            !this.checkAccessRule(
-              req.method,
-              rule,
-              req.session.account.idTokenClaims[AccessConstants.GROUPS],
-              AccessConstants.GROUPS
-            )
-          ) {
-            return res.redirect(this.appSettings.authRoutes.unauthorized);
-          } else {
-            return next();
-          }
-        }
-      } catch (error) {
-        next(error);
-      }
-    } catch (error) {
-      next(error);
+  /**
+   * Removes a pending auth code flow from session, so that its state cannot be used again
+   * @param {Request} req: express request object
+   * @param {string} flowId: ID of the flow, from state
+   * @returns {AuthFlow} the flow, or undefined if it was not started in this session
+   */
+  private completeAuthFlow(
+    req: Request,
+    flowId?: string
+  ): AuthFlow | undefined {
+    const authFlows = req.session.authFlows || {};
+    const authFlow = flowId ? authFlows[flowId] : undefined;
+
+    if (authFlow) {
+      req.session.authFlows = { ...authFlows };
+      delete req.session.authFlows[flowId];
     }
+
+    return authFlow;
   }
 
   /**
-   * Checks if the request passes a given access rule
-   * @param {string} method: HTTP method for this route
-   * @param {AccessRule} rule: access rule for this route
-   * @param {Array} creds: user's credentials i.e. roles or groups
-   * @param {string} credType: roles or groups
-   * @returns {boolean}
+   * Handles group overage claims by querying MS Graph for the user's group
+   * memberships. Resolved groups are cached per user, so that overage users
+   * do not cause a call to MS Graph on each request
+   * @param {Request} req: express request object
+   * @returns {Promise}
    */
-  private checkAccessRule(
-    method: string,
-    rule: AccessRule,
-    creds: string[],
-    credType: string
-  ): boolean {
-    if (rule.methods.includes(method)) {
-      switch (credType) {
-        case AccessConstants.GROUPS:
-          if (rule.groups.filter((elem) => creds.includes(elem)).length < 1) {
-            Logger.logError(ErrorMessages.USER_NOT_IN_GROUP);
-            return false;
-          }
-          break;
+  private async handleOverage(req: Request): Promise<string[]> {
+    const claims = this.getRequestClaims(req);
+    const cacheKey = `${claims.tid}.${claims.oid}`;
 
-        case AccessConstants.ROLES:
-          if (rule.roles.filter((elem) => creds.includes(elem)).length < 1) {
-            Logger.logError(ErrorMessages.USER_NOT_IN_ROLE);
-            return false;
-          }
-          break;
+    const cachedGroups = this.groupCache.get(cacheKey);
 
-        default:
-          break;
-      }
+    let groups: string[];
+
+    if (cachedGroups && cachedGroups.expiresOn > Date.now()) {
+      groups = cachedGroups.groups;
     } else {
-      Logger.logError(ErrorMessages.METHOD_NOT_ALLOWED);
-      return false;
+      groups = this.filterGroups(await this.getGroupMemberships(req));
+      this.cacheGroups(cacheKey, groups);
     }
 
-    return true;
+    /**
+     * Replace overage claims of the request's access token with the resolved groups.
+     * Session claims are left as is, so that groups are read from the cache and
+     * expire with it, rather than persisting for the rest of the session
+     */
+    if (req.authContext && req.authContext.accessTokenClaims) {
+      const { _claim_names, _claim_sources, ...newAccessTokenClaims } = req
+        .authContext.accessTokenClaims as any;
+
+      req.authContext.accessTokenClaims = { ...newAccessTokenClaims, groups };
+    }
+
+    return groups;
   }
 
   /**
-   * Util method to get the resource name for a given scope(s)
-   * @param {Array} scopes: an array of scopes that the resource is associated with
-   * @returns {string}
+   * Gets the user's group memberships from MS Graph, either direct or transitive.
+   * The token for MS Graph is acquired on behalf of the caller for bearer
+   * tokens, and silently for the signed-in user otherwise
+   * @param {Request} req: express request object
+   * @returns {Promise}
    */
-  private getResourceNameFromScopes(scopes: string[]): string {
-    // TODO: deep check equality here
-
-    const index = Object.values({
-      ...this.appSettings.remoteResources,
-      ...this.appSettings.ownedResources,
-    }).findIndex(
-      (resource: Resource) =>
-        JSON.stringify(resource.scopes) === JSON.stringify(scopes)
-    );
+  private async getGroupMemberships(req: Request): Promise<string[]> {
+    const scopes = AccessConstants.GRAPH_MEMBER_SCOPES.split(' ');
 
-    const resourceName = Object.keys({
+    const tokenResponse = await this.callMsalClient(msalClient =>
+      req.authContext && req.authContext.accessTokenClaims
+        ? msalClient.acquireTokenOnBehalfOf({
+            oboAssertion: req.authContext.accessToken,
+            scopes: scopes,
+            correlationId: Logger.getCorrelationId(),
+          } as OnBehalfOfRequest)
+        : msalClient.acquireTokenSilent({
+            account: req.session.account,
+            scopes: scopes,
+            correlationId: Logger.getCorrelationId(),
+          } as SilentFlowRequest)
+    );
+
+    /**
+     * Some queries against Microsoft Graph return multiple pages of data either due to server-side paging
+     * or due to the use of the $top query parameter to specifically limit the page size in a request.
+     * When a result set spans multiple pages, Microsoft Graph returns an @odata.nextLink property in
+     * the response that contains a URL to the next page of results. Learn more at https://docs.microsoft.com/graph/paging
+     */
+    switch (this.getGroupOverageOptions().membership) {
+      case GroupMembershipTypes.GET_MEMBER_GROUPS: {
+        // returns the IDs of all groups, in a single response
+        const response = await FetchManager.callApi(
+          AccessConstants.GRAPH_MEMBER_GROUPS_ENDPOINT,
+          tokenResponse.accessToken,
+          { method: 'POST', body: { securityEnabledOnly: false } },
+          this.appSettings.fetchOptions
+        );
+
+        return response.data['value'];
+      }
+
+      case GroupMembershipTypes.TRANSITIVE:
+        return FetchManager.handlePagination(
+          tokenResponse.accessToken,
+          AccessConstants.GRAPH_TRANSITIVE_MEMBERS_ENDPOINT,
+          [],
+          this.appSettings.fetchOptions
+        );
+
+      default:
+        return FetchManager.handlePagination(
+          tokenResponse.accessToken,
+          AccessConstants.GRAPH_MEMBERS_ENDPOINT,
+          [],
+          this.appSettings.fetchOptions
+        );
+    }
+  }
+
+  /**
+   * Keeps only the groups referenced in accessMatrix, if filterGroups is set
+   * @param {Array} groups: group IDs
+   * @returns {Array}
+   */
+  private filterGroups(groups: string[]): string[] {
+    if (
+      !this.getGroupOverageOptions().filterGroups ||
+      !this.appSettings.accessMatrix
+    ) {
+      return groups;
+    }
+
+    const referencedGroups = new Set(
+      Object.values(this.appSettings.accessMatrix).reduce(
+        (ruleGroups: string[], rule: AccessRule) => [
+          ...ruleGroups,
+          ...(rule.groups || []),
+        ],
+        []
+      )
+    );
+
+    return groups.filter(group => referencedGroups.has(group));
+  }
+
+  /**
+   * Caches the groups of a user until the cache TTL expires. The oldest
+   * entry is evicted when the cache is full
+   * @param {string} cacheKey: tenant and object ID of the user
+   * @param {Array} groups: resolved group IDs
+   * @returns {void}
+   */
+  private cacheGroups(cacheKey: string, groups: string[]): void {
+    this.groupCache.delete(cacheKey);
+
+    if (this.groupCache.size >= GroupOverageConstants.CACHE_MAX_ENTRIES) {
+      this.groupCache.delete(this.groupCache.keys().next().value);
+    }
+
+    this.groupCache.set(cacheKey, {
+      groups,
+      expiresOn: Date.now() + this.getGroupOverageOptions().cacheTtl * 1000,
+    });
+  }
+
+  /**
+   * Applies defaults to group overage options
+   * @returns {GroupOverageOptions}
+   */
+  private getGroupOverageOptions(): GroupOverageOptions {
+    const options = this.appSettings.groupOverageOptions || {};
+
+    return {
+      membership: options.membership || GroupMembershipTypes.DIRECT,
+      filterGroups: !!options.filterGroups,
+      cacheTtl:
+        options.cacheTtl !== undefined
+          ? options.cacheTtl
+          : GroupOverageConstants.CACHE_TTL,
+    };
+  }
+
+  /**
+   * Gets the claims to authorize a request with: the verified access
+   * token claims for web APIs, or the signed-in user's id token claims
+   * @param {Request} req: express request object
+   * @returns {Object}
+   */
+  private getRequestClaims(req: Request): IdTokenClaims | AccessTokenClaims {
+    if (req.authContext && req.authContext.accessTokenClaims) {
+      return req.authContext.accessTokenClaims;
+    }
+
+    if (req.session && req.session.isAuthenticated && req.session.account) {
+      return req.session.account.idTokenClaims as IdTokenClaims;
+    }
+
+    return null;
+  }
+
+  /**
+   * Responds to a request that failed a guard. Browser navigation is redirected
+   * to the unauthorized route, while API calls receive a 401/403 with
+   * a WWW-Authenticate header (RFC 6750) and a problem details body (RFC 7807)
+   * @param {Request} req: express request object
+   * @param {Response} res: express response object
+   * @param {GuardOptions} options: guard options with the response type, if any
+   * @param {number} status: 401 if not authenticated, 403 if forbidden
+   * @param {string} detail: reason for the failure
+   * @param {string} bearerError: error code for the WWW-Authenticate header
+   * @returns {void}
+   */
+  private rejectRequest(
+    req: Request,
+    res: Response,
+    options: GuardOptions,
+    status: number,
+    detail: string,
+    bearerError?: string
+  ): void {
+    this.emitEvent(AuthEventTypes.ACCESS_DENIED, {
+      req,
+      status: status,
+      reason: detail,
+      claims: this.getRequestClaims(req),
+    });
+
+    const responseType =
+      options && options.responseType
+        ? options.responseType
+        : GuardResponseTypes.NEGOTIATE;
+
+    const shouldRedirect =
+      responseType === GuardResponseTypes.REDIRECT ||
+      (responseType === GuardResponseTypes.NEGOTIATE &&
+        !req.xhr &&
+        req.accepts(['json', 'html']) === 'html');
+
+    if (shouldRedirect) {
+      return res.redirect(this.appSettings.authRoutes.unauthorized);
+    }
+
+    res.set(
+      'WWW-Authenticate',
+      bearerError
+        ? `Bearer error="${bearerError}", error_description="${detail}"`
+        : 'Bearer'
+    );
+
+    const problem: ProblemDetails = {
+      type: 'about:blank',
+      title:
+        status === HttpStatusCodes.FORBIDDEN ? 'Forbidden' : 'Unauthorized',
+      status: status,
+      detail: detail,
+    };
+
+    res
+      .status(status)
+      .type('application/problem+json')
+      .json(problem);
+  }
+
+  /**
+   * Finds the most specific rule in access matrix for the request path.
+   * Methods are not considered, so that the most specific rule is enforced
+   * even if it does not allow the request method
+   * @param {Request} req: express request object
+   * @returns {AccessRule}
+   */
+  private getAccessRule(req: Request): AccessRule {
+    const path = `${req.baseUrl}${req.path}`;
+
+    const compareRules = (a: AccessRule, b: AccessRule): number => {
+      const specificityA = UrlUtils.getPathSpecificity(a.path);
+      const specificityB = UrlUtils.getPathSpecificity(b.path);
+
+      const index = specificityA.findIndex(
+        (value, i) => value !== specificityB[i]
+      );
+      return index === -1 ? 0 : specificityB[index] - specificityA[index];
+    };
+
+    return Object.values(this.appSettings.accessMatrix)
+      .filter(rule => rule.path && UrlUtils.matchPath(rule.path, path))
+      .sort(compareRules)[0];
+  }
+
+  /**
+   * Checks if the request passes a given access rule. Each of roles,
+   * groups and scopes is checked if the rule defines it. App-only tokens
+   * carry no scopes, so only their app roles are checked against a rule
+   * with scopes, while user tokens must have both the scopes and the roles
+   * @param {string} method: HTTP method for this route
+   * @param {AccessRule} rule: access rule for this route
+   * @param {Object} claims: user's or app's claims i.e. roles, groups and scopes
+   * @param {boolean} isAppOnly: whether the claims are of an app-only access token
+   * @returns {boolean}
+   */
+  private checkAccessRule(
+    method: string,
+    rule: AccessRule,
+    claims: IdTokenClaims | AccessTokenClaims,
+    isAppOnly: boolean
+  ): boolean {
+    if (!rule.methods.includes(method)) {
+      Logger.logError(ErrorMessages.METHOD_NOT_ALLOWED);
+      return false;
+    }
+
+    const roles: string[] = claims[AccessConstants.ROLES] || [];
+    const groups: string[] = claims[AccessConstants.GROUPS] || [];
+    const scp: string = claims[AccessConstants.SCOPES];
+
+    if (rule.scopes && !isAppOnly) {
+      const scopes = scp ? scp.split(' ') : [];
+
+      if (rule.scopes.filter(elem => scopes.includes(elem)).length < 1) {
+        Logger.logError(ErrorMessages.TOKEN_HAS_NO_SCOPE);
+        return false;
+      }
+    }
+
+    // app-only tokens must have one of the rule's roles (app permissions) in lieu of scopes
+    if (rule.roles || (rule.scopes && isAppOnly)) {
+      if (roles.length < 1) {
+        Logger.logError(ErrorMessages.USER_HAS_NO_ROLE);
+        return false;
+      }
+
+      if (
+        !rule.roles ||
+        rule.roles.filter(elem => roles.includes(elem)).length < 1
+      ) {
+        Logger.logError(ErrorMessages.USER_NOT_IN_ROLE);
+        return false;
+      }
+    }
+
+    if (rule.groups) {
+      if (groups.length < 1) {
+        Logger.logError(ErrorMessages.USER_HAS_NO_GROUP);
+        return false;
+      }
+
+      if (rule.groups.filter(elem => groups.includes(elem)).length < 1) {
+        Logger.logError(ErrorMessages.USER_NOT_IN_GROUP);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Gets a resource in remoteResources by name, if configured
+   * @param {string} resourceName: name of a resource in remoteResources
+   * @returns {Resource}
+   */
+  private getRemoteResource(resourceName: string): Resource | undefined {
+    return this.appSettings.remoteResources
+      ? this.appSettings.remoteResources[resourceName]
+      : undefined;
+  }
+
+  /**
+   * Gets an access token for a resource in remoteResources from MSAL's cache.
+   * Expired tokens are refreshed automatically
+   * @param {Request} req: express request object
+   * @param {string} resourceName: name of a resource in remoteResources
+   * @returns {Promise}
+   */
+  private getAccessToken(req: Request, resourceName: string): Promise<string> {
+    const resource = this.getRemoteResource(resourceName);
+
+    if (!resource) {
+      return Promise.reject(
+        new Error(`${ErrorMessages.RESOURCE_NOT_FOUND}: ${resourceName}`)
+      );
+    }
+
+    if (!req.session || !req.session.isAuthenticated) {
+      return Promise.reject(new Error(ErrorMessages.NOT_AUTHENTICATED));
+    }
+
+    return this.acquireTokenSilently(req, {
+      account: req.session.account,
+      scopes: resource.scopes,
+    });
+  }
+
+  /**
+   * Calls a web API in remoteResources with an access token from MSAL's cache.
+   * If the web API rejects the token, a new one is acquired, with the claims
+   * challenge if there is one, and the call is retried once
+   * @param {Request} req: express request object
+   * @param {string} resourceName: name of a resource in remoteResources
+   * @param {DownstreamApiOptions} options: method, path, body and headers of the request
+   * @returns {Promise}
+   */
+  private async callResource(
+    req: Request,
+    resourceName: string,
+    options: DownstreamApiOptions = {}
+  ): Promise<DownstreamApiResponse> {
+    const accessToken = await this.getAccessToken(req, resourceName);
+    const resource = this.getRemoteResource(resourceName);
+
+    const url = options.path
+      ? `${resource.endpoint.replace(/\/+$/, '')}/${options.path.replace(
+          /^\/+/,
+          ''
+        )}`
+      : resource.endpoint;
+
+    try {
+      return await FetchManager.callApi(
+        url,
+        accessToken,
+        options,
+        this.appSettings.fetchOptions
+      );
+    } catch (error) {
+      if (
+        !(error instanceof DownstreamApiError) ||
+        error.status !== HttpStatusCodes.UNAUTHORIZED
+      ) {
+        throw error;
+      }
+
+      let newAccessToken: string;
+
+      try {
+        // the token has expired or was revoked, so cached tokens are skipped
+        newAccessToken = await this.acquireTokenSilently(req, {
+          account: req.session.account,
+          scopes: resource.scopes,
+          claims: error.claimsChallenge || undefined,
+          forceRefresh: true,
+        });
+      } catch (tokenError) {
+        // a claims challenge is satisfied interactively
+        if (
+          tokenError instanceof InteractionRequiredAuthError &&
+          error.claimsChallenge
+        ) {
+          throw error;
+        }
+
+        throw tokenError;
+      }
+
+      return FetchManager.callApi(
+        url,
+        newAccessToken,
+        options,
+        this.appSettings.fetchOptions
+      );
+    }
+  }
+
+  /**
+   * Acquires an access token silently, throwing InteractionRequiredAuthError
+   * when the user needs to sign in or consent
+   * @param {Request} req: express request object
+   * @param {SilentFlowRequest} silentRequest: silent token request
+   * @returns {Promise}
+   */
+  private async acquireTokenSilently(
+    req: Request,
+    silentRequest: SilentFlowRequest
+  ): Promise<string> {
+    const tokenResponse = await this.callMsalClient(msalClient =>
+      msalClient.acquireTokenSilent({
+        ...silentRequest,
+        correlationId: Logger.getCorrelationId(),
+      })
+    );
+
+    // In B2C scenarios, sometimes an access token is returned empty.
+    // In that case, we will acquire token interactively instead.
+    if (StringUtils.isEmpty(tokenResponse.accessToken)) {
+      Logger.logError(ErrorMessages.TOKEN_NOT_FOUND);
+      throw new InteractionRequiredAuthError(
+        ErrorMessages.INTERACTION_REQUIRED
+      );
+    }
+
+    this.emitEvent(AuthEventTypes.TOKEN_ACQUIRED, {
+      req,
+      resource: this.getResourceNameFromScopes(silentRequest.scopes),
+      scopes: silentRequest.scopes,
+      account: tokenResponse.account,
+    });
+
+    return tokenResponse.accessToken;
+  }
+
+  /**
+   * Gets the authority an account signed in with. In B2C scenarios, this is the
+   * authority of the policy in the account's ID token claims
+   * @param {AccountInfo} account
+   * @returns {string}
+   */
+  private getAccountAuthority(account?: AccountInfo): string {
+    if (this.appSettings.b2cPolicies && account && account.idTokenClaims) {
+      try {
+        return this.tokenValidator.getB2CPolicy(
+          account.idTokenClaims as IdTokenClaims
+        ).authority;
+      } catch (error) {
+        Logger.logWarning(error.message);
+      }
+    }
+
+    return this.msalConfig.auth.authority;
+  }
+
+  /**
+   * Gets the end session endpoint of an authority from its metadata. Endpoints
+   * are cached per authority, and the default logout path is used if the
+   * metadata cannot be obtained
+   * @param {string} authority
+   * @returns {Promise}
+   */
+  private async getEndSessionEndpoint(authority: string): Promise<string> {
+    if (!this.endSessionEndpoints.has(authority)) {
+      try {
+        const metadata = await FetchManager.getOpenIdConfiguration(
+          authority,
+          this.appSettings.fetchOptions
+        );
+
+        if (metadata.end_session_endpoint) {
+          this.endSessionEndpoints.set(
+            authority,
+            metadata.end_session_endpoint
+          );
+        }
+      } catch (error) {
+        Logger.logWarning(
+          `${InfoMessages.METADATA_NOT_OBTAINED}: ${error.message}`
+        );
+      }
+    }
+
+    return (
+      this.endSessionEndpoints.get(authority) ||
+      `${authority.replace(/\/+$/, '')}${OIDCConstants.LOGOUT_PATH}`
+    );
+  }
+
+  /**
+   * Removes an account and its tokens from the token cache, so that they
+   * cannot be used after sign-out. Errors are logged, so as not to block sign-out
+   * @param {AccountInfo} account
+   * @returns {Promise}
+   */
+  private async removeAccount(account?: AccountInfo): Promise<void> {
+    if (!account) {
+      return;
+    }
+
+    try {
+      await this.msalClient.getTokenCache().removeAccount(account);
+    } catch (error) {
+      Logger.logError(`${ErrorMessages.ACCOUNT_NOT_REMOVED}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Calls the MSAL client. Client assertions about to expire are refreshed first.
+   * If the client credential is rejected with invalid_client, the credential is
+   * refreshed and the call is retried once with the new client
+   * @param {Function} callback: MSAL call to make
+   * @returns {Promise}
+   */
+  private async callMsalClient<T>(
+    callback: (msalClient: ConfidentialClientApplication) => Promise<T>
+  ): Promise<T> {
+    if (
+      this.credentialProvider &&
+      this.credentialExpiresOn !== null &&
+      this.credentialExpiresOn <=
+        Date.now() + CredentialConstants.ASSERTION_REFRESH_OFFSET * 1000
+    ) {
+      try {
+        await this.refreshCredential();
+      } catch (error) {
+        Logger.logError(
+          `${ErrorMessages.CREDENTIAL_REFRESH_FAILED}: ${error.message}`
+        );
+      }
+    }
+
+    const msalClient = this.msalClient;
+
+    try {
+      return await callback(msalClient);
+    } catch (error) {
+      if (
+        !this.credentialProvider ||
+        error.errorCode !== CredentialConstants.INVALID_CLIENT_ERROR
+      ) {
+        throw error;
+      }
+
+      Logger.logWarning(InfoMessages.INVALID_CLIENT_CREDENTIAL);
+
+      if (this.msalClient === msalClient) {
+        await this.refreshCredential();
+      }
+
+      // the credential has not been rotated yet
+      if (this.msalClient === msalClient) {
+        throw error;
+      }
+
+      return callback(this.msalClient);
+    }
+  }
+
+  /**
+   * Replaces the MSAL client with one using the given credential, unless the
+   * credential is unchanged. Tokens cached by the previous client are copied over
+   * @param {ClientCredential} credential: client secret or certificate
+   * @returns {void}
+   */
+  private rebuildMsalClient(credential: ClientCredential): void {
+    const {
+      clientSecret,
+      clientCertificate,
+      clientAssertion,
+    } = this.appSettings.appCredentials;
+
+    if (
+      clientSecret === credential.clientSecret &&
+      clientAssertion === credential.clientAssertion &&
+      JSON.stringify(clientCertificate) ===
+        JSON.stringify(credential.clientCertificate)
+    ) {
+      return;
+    }
+
+    this.appSettings = AuthProvider.applyCredential(
+      this.appSettings,
+      credential
+    );
+
+    this.credentialExpiresOn = AuthProvider.getAssertionExpiry(
+      credential.clientAssertion
+    );
+
+    this.msalConfig = ConfigurationUtils.getMsalConfiguration(
+      this.appSettings,
+      this.cachePlugin
+    );
+
+    const msalClient = new ConfidentialClientApplication(this.msalConfig);
+
+    msalClient
+      .getTokenCache()
+      .deserialize(this.msalClient.getTokenCache().serialize());
+
+    this.msalClient = msalClient;
+    Logger.logInfo(InfoMessages.CREDENTIAL_REFRESHED);
+  }
+
+  /**
+   * Refreshes the client credential periodically, if a credential provider is used.
+   * Failed refreshes are logged, and the current credential is kept
+   * @returns {void}
+   */
+  private scheduleCredentialRefresh(): void {
+    const credentialOptions = this.appSettings.credentialOptions || {};
+
+    const refreshInterval =
+      credentialOptions.refreshInterval !== undefined
+        ? credentialOptions.refreshInterval
+        : CredentialConstants.REFRESH_INTERVAL;
+
+    if (!this.credentialProvider || refreshInterval <= 0) {
+      return;
+    }
+
+    // the timer should not keep the process alive
+    this.credentialRefreshTimer = setInterval(() => {
+      this.refreshCredential().catch(error => {
+        Logger.logError(
+          `${ErrorMessages.CREDENTIAL_REFRESH_FAILED}: ${error.message}`
+        );
+      });
+    }, refreshInterval * 1000).unref();
+  }
+
+  /**
+   * Gets the configured credential provider, or a Key Vault, file or assertion
+   * provider if a Key Vault credential, certificate file or assertion source is configured
+   * @param {AppSettings} appSettings
+   * @returns {CredentialProvider}
+   */
+  private static getCredentialProvider(
+    appSettings: AppSettings
+  ): CredentialProvider | null {
+    if (
+      appSettings.credentialOptions &&
+      appSettings.credentialOptions.provider
+    ) {
+      return appSettings.credentialOptions.provider;
+    }
+
+    if (appSettings.appCredentials.keyVaultCredential) {
+      return new KeyVaultCredentialProvider(
+        appSettings.appCredentials.keyVaultCredential
+      );
+    }
+
+    // certificate files are reloaded on refresh, to pick up renewed certificates
+    if (appSettings.appCredentials.clientCertificateFile) {
+      return new FileCredentialProvider({
+        certificateFile: appSettings.appCredentials.clientCertificateFile,
+      });
+    }
+
+    if (appSettings.appCredentials.clientAssertionSource) {
+      return new ClientAssertionCredentialProvider(
+        appSettings.appCredentials.clientAssertionSource
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the expiry time of a client assertion, in milliseconds
+   * @param {string} clientAssertion: a JWT
+   * @returns {number} expiry time, or null if there is no assertion or it does not expire
+   */
+  private static getAssertionExpiry(clientAssertion?: string): number | null {
+    const payload = clientAssertion
+      ? jwt.decode(clientAssertion, { json: true })
+      : null;
+
+    return payload && typeof payload.exp === 'number'
+      ? payload.exp * 1000
+      : null;
+  }
+
+  /**
+   * Checks if app settings have a client secret, certificate or assertion to give MSAL
+   * @param {AppSettings} appSettings
+   * @returns {boolean}
+   */
+  private static hasCredential(appSettings: AppSettings): boolean {
+    return (
+      !StringUtils.isEmpty(appSettings.appCredentials.clientSecret) ||
+      !StringUtils.isEmpty(appSettings.appCredentials.clientAssertion) ||
+      !!appSettings.appCredentials.clientCertificate
+    );
+  }
+
+  /**
+   * Replaces the client secret, certificate or assertion in app settings. MSAL
+   * does not accept more than one credential, so the previous one is removed
+   * @param {AppSettings} appSettings
+   * @param {ClientCredential} credential: client secret, certificate or assertion
+   * @returns {AppSettings}
+   */
+  private static applyCredential(
+    appSettings: AppSettings,
+    credential: ClientCredential
+  ): AppSettings {
+    if (
+      !credential ||
+      (StringUtils.isEmpty(credential.clientSecret) &&
+        StringUtils.isEmpty(credential.clientAssertion) &&
+        !credential.clientCertificate)
+    ) {
+      throw new Error(ErrorMessages.CREDENTIAL_NOT_FOUND);
+    }
+
+    const appCredentials = { ...appSettings.appCredentials };
+
+    delete appCredentials.clientSecret;
+    delete appCredentials.clientCertificate;
+    delete appCredentials.clientAssertion;
+
+    return {
+      ...appSettings,
+      appCredentials: {
+        ...appCredentials,
+        ...(credential.clientSecret && {
+          clientSecret: credential.clientSecret,
+        }),
+        ...(credential.clientCertificate && {
+          clientCertificate: credential.clientCertificate,
+        }),
+        ...(credential.clientAssertion && {
+          clientAssertion: credential.clientAssertion,
+        }),
+      },
+    };
+  }
+
+  /**
+   * Emits an event with the correlation ID of the request. Errors thrown by
+   * listeners are logged, so that they do not interrupt the request
+   * @param {string} event: one of AuthEventTypes
+   * @param {Object} payload: event payload
+   * @returns {void}
+   */
+  private emitEvent<E extends keyof AuthEventMap>(
+    event: E,
+    payload: Omit<AuthEventMap[E], 'correlationId'>
+  ): void {
+    try {
+      this.emit(event, {
+        ...payload,
+        correlationId: Logger.getCorrelationId(),
+      });
+    } catch (error) {
+      Logger.logError(
+        `${ErrorMessages.EVENT_LISTENER_FAILED}: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Util method to get the resource name for a given scope(s)
+   * @param {Array} scopes: an array of scopes that the resource is associated with
+   * @returns {string}
+   */
+  private getResourceNameFromScopes(scopes: string[]): string {
+    const resources: { [resource: string]: Resource } = {
       ...this.appSettings.remoteResources,
       ...this.appSettings.ownedResources,
-    })[index];
-    return resourceName;
+    };
+
+    // scopes are compared as sets, regardless of order and case
+    return Object.keys(resources).find((resourceName: string) =>
+      AuthProvider.areScopesEqual(resources[resourceName].scopes, scopes)
+    );
+  }
+
+  /**
+   * Checks if two lists of scopes contain the same scopes
+   * @param {Array} scopes: list of scopes
+   * @param {Array} otherScopes: list of scopes to compare with
+   * @returns {boolean}
+   */
+  private static areScopesEqual(
+    scopes: string[],
+    otherScopes: string[]
+  ): boolean {
+    const normalize = (list: string[]): Set<string> =>
+      new Set((list || []).map(scope => scope.trim().toLowerCase()));
+
+    const scopeSet = normalize(scopes);
+    const otherScopeSet = normalize(otherScopes);
+
+    return (
+      scopeSet.size === otherScopeSet.size &&
+      Array.from(scopeSet).every(scope => otherScopeSet.has(scope))
+    );
   }
 }
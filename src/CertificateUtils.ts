@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import fs from "fs";
+import path from "path";
+import forge from "node-forge";
+
+import { CertificateFile, ClientCertificate } from "./Types";
+import { CertificateConstants, ErrorMessages, InfoMessages } from "./Constants";
+import { Logger } from "./Logger";
+
+export class CertificateUtils {
+
+    /**
+     * Loads a client certificate from a PEM or PFX (PKCS#12) file
+     * @param {CertificateFile} certificateFile: path and password of the file
+     * @returns {ClientCertificate}
+     */
+    static loadCertificate(certificateFile: CertificateFile): ClientCertificate {
+        const contents = fs.readFileSync(certificateFile.path);
+        const extension = path.extname(certificateFile.path).toLowerCase();
+
+        return CertificateConstants.PFX_EXTENSIONS.includes(extension) ?
+            CertificateUtils.parsePfx(contents, certificateFile.password)
+            :
+            CertificateUtils.parsePem(contents.toString("utf8"), certificateFile.password);
+    }
+
+    /**
+     * Gets the private key, thumbprint and chain from PEM blocks. The private key
+     * may be encrypted (PKCS#8 or legacy PEM encryption) with the given password
+     * @param {string} pem: private key and certificate chain, in any order
+     * @param {string} password: password of an encrypted private key
+     * @returns {ClientCertificate}
+     */
+    static parsePem(pem: string, password?: string): ClientCertificate {
+        const messages = forge.pem.decode(pem);
+        const keyMessage = messages.find((message) => message.type.endsWith("PRIVATE KEY"));
+
+        const certificates = messages
+            .filter((message) => message.type === "CERTIFICATE")
+            .map((message) => forge.pki.certificateFromAsn1(forge.asn1.fromDer(message.body)));
+
+        // returns null if the password is wrong
+        const privateKey = keyMessage ?
+            forge.pki.decryptRsaPrivateKey(forge.pem.encode(keyMessage), password || "")
+            :
+            null;
+
+        return CertificateUtils.getClientCertificate(privateKey, certificates);
+    }
+
+    /**
+     * Gets the private key, thumbprint and chain from a PFX (PKCS#12) file
+     * @param {Buffer} pfx: contents of the file
+     * @param {string} password: password of the file
+     * @returns {ClientCertificate}
+     */
+    static parsePfx(pfx: Buffer, password?: string): ClientCertificate {
+        const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(pfx.toString("binary")), password || "");
+
+        const getBags = (bagType: string): forge.pkcs12.Bag[] => p12.getBags({ bagType })[bagType] || [];
+
+        const keyBag = [
+            ...getBags(forge.pki.oids.pkcs8ShroudedKeyBag),
+            ...getBags(forge.pki.oids.keyBag),
+        ].find((bag) => bag.key);
+
+        const certificates = getBags(forge.pki.oids.certBag)
+            .map((bag) => bag.cert)
+            .filter((certificate) => certificate);
+
+        return CertificateUtils.getClientCertificate(
+            keyBag ? keyBag.key as forge.pki.rsa.PrivateKey : null,
+            certificates
+        );
+    }
+
+    /**
+     * Computes the hex encoded SHA-1 thumbprint of a certificate
+     * @param {Certificate} certificate
+     * @returns {string}
+     */
+    static getThumbprint(certificate: forge.pki.Certificate): string {
+        const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+        return forge.md.sha1.create().update(der).digest().toHex();
+    }
+
+    /**
+     * Builds the MSAL client certificate from a private key and a chain, starting the chain
+     * with the certificate matching the key. Warns if that certificate is about to expire
+     * @param {PrivateKey} privateKey
+     * @param {Array} certificates: certificate chain, in any order
+     * @returns {ClientCertificate}
+     */
+    private static getClientCertificate(privateKey: forge.pki.rsa.PrivateKey | null, certificates: forge.pki.Certificate[]): ClientCertificate {
+        const leaf = privateKey ?
+            certificates.find((certificate) => (certificate.publicKey as forge.pki.rsa.PublicKey).n.equals(privateKey.n))
+            :
+            undefined;
+
+        if (!leaf) {
+            throw new Error(ErrorMessages.INVALID_CERTIFICATE);
+        }
+
+        const thumbprint = CertificateUtils.getThumbprint(leaf);
+        CertificateUtils.checkExpiry(leaf, thumbprint);
+
+        const chain = [leaf, ...certificates.filter((certificate) => certificate !== leaf)];
+
+        return {
+            thumbprint,
+            privateKey: forge.pki.privateKeyInfoToPem(forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(privateKey))),
+            // MSAL expects each certificate on a single line between the PEM boundaries
+            x5c: chain
+                .map((certificate) => {
+                    const body = forge.util.encode64(forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes());
+                    return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----`;
+                })
+                .join("\n"),
+        };
+    }
+
+    /**
+     * Logs a warning if a certificate expires within the warning period, or an error if it has expired
+     * @param {Certificate} certificate
+     * @param {string} thumbprint
+     * @returns {void}
+     */
+    private static checkExpiry(certificate: forge.pki.Certificate, thumbprint: string): void {
+        const notAfter = certificate.validity.notAfter;
+        const daysLeft = (notAfter.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+
+        if (daysLeft <= 0) {
+            Logger.logError(`${ErrorMessages.CERTIFICATE_EXPIRED}: ${thumbprint} expired on ${notAfter.toISOString()}`);
+        } else if (daysLeft <= CertificateConstants.EXPIRY_WARNING_DAYS) {
+            Logger.logWarning(`${InfoMessages.CERTIFICATE_EXPIRING}: ${thumbprint} expires on ${notAfter.toISOString()}`);
+        }
+    }
+}
@@ -0,0 +1,234 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { ConfigurationSchema } from "./Types";
+
+import {
+    ConfigurationErrorMessages,
+    ConfigurationFormats,
+    GroupMembershipTypes,
+    KeyVaultCredentialTypes,
+    LogFormats
+} from "./Constants";
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+const stringArray = (format?: string): ConfigurationSchema => ({
+    type: "array",
+    items: { type: "string", required: true, format },
+});
+
+const resourceSchema: ConfigurationSchema = {
+    type: "object",
+    properties: {
+        endpoint: { type: "string", required: true, format: ConfigurationFormats.URL },
+        scopes: { ...stringArray(ConfigurationFormats.SCOPE), required: true },
+        accessToken: { type: "string" },
+    },
+};
+
+// owned resources are matched against request paths, so their endpoints may be routes
+const ownedResourceSchema: ConfigurationSchema = {
+    ...resourceSchema,
+    properties: {
+        ...resourceSchema.properties,
+        endpoint: { type: "string", required: true, format: ConfigurationFormats.ROUTE },
+    },
+};
+
+/**
+ * Expected shape of app settings, used by ConfigurationUtils.validateAppSettings
+ */
+export const AppSettingsSchema: ConfigurationSchema = {
+    type: "object",
+    required: true,
+    properties: {
+        appCredentials: {
+            type: "object",
+            required: true,
+            properties: {
+                instance: { type: "string", format: ConfigurationFormats.URL },
+                clientId: {
+                    type: "string",
+                    required: true,
+                    format: ConfigurationFormats.GUID,
+                    missingMessage: ConfigurationErrorMessages.NO_CLIENT_ID,
+                    invalidMessage: ConfigurationErrorMessages.INVALID_CLIENT_ID,
+                },
+                tenantId: {
+                    type: "string",
+                    required: true,
+                    format: ConfigurationFormats.TENANT,
+                    missingMessage: ConfigurationErrorMessages.NO_TENANT_INFO,
+                    invalidMessage: ConfigurationErrorMessages.INVALID_TENANT_INFO,
+                },
+                clientSecret: { type: "string" },
+                clientCertificate: {
+                    type: "object",
+                    properties: {
+                        thumbprint: { type: "string", required: true },
+                        privateKey: { type: "string", required: true },
+                        x5c: { type: "string" },
+                    },
+                },
+                clientCertificateFile: {
+                    type: "object",
+                    properties: {
+                        path: { type: "string", required: true },
+                        password: { type: "string" },
+                    },
+                },
+                clientAssertion: { type: "string" },
+                clientAssertionSource: {
+                    type: "object",
+                    properties: {
+                        tokenFilePath: { type: "string" },
+                        getAssertion: { type: "function" },
+                    },
+                },
+                keyVaultCredential: {
+                    type: "object",
+                    properties: {
+                        credentialType: {
+                            type: "string",
+                            required: true,
+                            enum: Object.values(KeyVaultCredentialTypes),
+                        },
+                        credentialName: { type: "string", required: true },
+                        keyVaultUrl: { type: "string", required: true, format: ConfigurationFormats.URL },
+                    },
+                },
+            },
+        },
+        authRoutes: {
+            type: "object",
+            required: true,
+            properties: {
+                redirect: {
+                    type: "string",
+                    required: true,
+                    format: ConfigurationFormats.ROUTE,
+                    missingMessage: ConfigurationErrorMessages.NO_REDIRECT_URI,
+                },
+                error: {
+                    type: "string",
+                    required: true,
+                    format: ConfigurationFormats.ROUTE,
+                    missingMessage: ConfigurationErrorMessages.NO_ERROR_ROUTE,
+                },
+                unauthorized: {
+                    type: "string",
+                    required: true,
+                    format: ConfigurationFormats.ROUTE,
+                    missingMessage: ConfigurationErrorMessages.NO_UNAUTHORIZED_ROUTE,
+                },
+                frontChannelLogout: { type: "string", format: ConfigurationFormats.ROUTE },
+            },
+        },
+        b2cPolicies: {
+            type: "object",
+            values: {
+                type: "object",
+                properties: {
+                    authority: { type: "string", required: true, format: ConfigurationFormats.URL },
+                },
+            },
+        },
+        remoteResources: {
+            type: "object",
+            values: resourceSchema,
+        },
+        ownedResources: {
+            type: "object",
+            values: ownedResourceSchema,
+        },
+        accessMatrix: {
+            type: "object",
+            values: {
+                type: "object",
+                properties: {
+                    path: { type: "string", required: true, format: ConfigurationFormats.ROUTE },
+                    methods: {
+                        type: "array",
+                        required: true,
+                        items: { type: "string", required: true, enum: HTTP_METHODS },
+                    },
+                    roles: stringArray(),
+                    groups: stringArray(),
+                    scopes: stringArray(ConfigurationFormats.SCOPE),
+                },
+            },
+        },
+        clientCapabilities: stringArray(),
+        credentialOptions: {
+            type: "object",
+            properties: {
+                provider: {
+                    type: "object",
+                    properties: {
+                        getCredential: { type: "function", required: true },
+                    },
+                },
+                refreshInterval: { type: "number" },
+            },
+        },
+        fetchOptions: {
+            type: "object",
+            properties: {
+                maxRetries: { type: "number" },
+                retryDelay: { type: "number" },
+                maxRetryDelay: { type: "number" },
+                timeout: { type: "number" },
+                maxPages: { type: "number" },
+                maxItems: { type: "number" },
+            },
+        },
+        groupOverageOptions: {
+            type: "object",
+            properties: {
+                membership: { type: "string", enum: Object.values(GroupMembershipTypes) },
+                filterGroups: { type: "boolean" },
+                cacheTtl: { type: "number" },
+            },
+        },
+        loggerOptions: {
+            type: "object",
+            properties: {
+                logLevel: { type: "number" },
+                piiLoggingEnabled: { type: "boolean" },
+                format: { type: "string", enum: Object.values(LogFormats) },
+                loggerCallback: { type: "function" },
+            },
+        },
+        stateOptions: {
+            type: "object",
+            properties: {
+                // unset entries are ignored, to allow for optional rotation keys from env
+                keys: { type: "array", required: true, items: { type: "string" } },
+                expiresIn: { type: "number" },
+            },
+        },
+        signingKeyOptions: {
+            type: "object",
+            properties: {
+                cacheMaxAge: { type: "number" },
+                cacheMaxEntries: { type: "number" },
+                requestsPerMinute: { type: "number" },
+                localKeysPath: { type: "string" },
+            },
+        },
+        tokenValidationOptions: {
+            type: "object",
+            properties: {
+                allowedTenants: stringArray(ConfigurationFormats.GUID),
+                isTenantAllowed: { type: "function" },
+                clockSkew: { type: "number" },
+                audiences: stringArray(),
+                validateNonce: { type: "boolean" },
+                allowUnlistedRoutes: { type: "boolean" },
+            },
+        },
+    },
+};
@@ -15,49 +15,184 @@ import {
     LogLevel 
 } from "@azure/msal-node";
 
-import { AppSettings } from "./Types";
+import fs from "fs";
+import path from "path";
+
+import {
+    AppSettings,
+    Policy,
+    ConfigurationSchema,
+    ConfigurationIssue,
+    ConfigurationLoaderOptions
+} from "./Types";
+
+import { Logger } from "./Logger";
+import { AppSettingsSchema } from "./ConfigurationSchema";
 
 import { 
     AADAuthorityConstants, 
-    ConfigurationErrorMessages 
+    ConfigurationErrorMessages,
+    ConfigurationFormats,
+    ConfigurationLoaderConstants
 } from "./Constants";
 
+/**
+ * Error thrown when app settings are invalid, listing every issue found
+ */
+export class ConfigurationError extends Error {
+    issues: ConfigurationIssue[];
+
+    constructor(issues: ConfigurationIssue[]) {
+        super([
+            `${ConfigurationErrorMessages.INVALID_CONFIGURATION}:`,
+            ...issues.map((issue) => `  ${issue.path}: ${issue.message}`),
+        ].join("\n"));
+        this.name = "ConfigurationError";
+        Object.setPrototypeOf(this, ConfigurationError.prototype);
+
+        this.issues = issues;
+    }
+}
+
 export class ConfigurationUtils {
 
     /**
-     * Validates the fields in the configuration file
+     * Validates the fields in the configuration file. All problems
+     * are reported at once, each with the path of the offending value
      * @param {AppSettings} config: configuration object
      * @returns {void}
      */
     static validateAppSettings(config: AppSettings): void {
-        if (StringUtils.isEmpty(config.appCredentials.clientId)) {
-            throw new Error(ConfigurationErrorMessages.NO_CLIENT_ID);
-        } else if (!ConfigurationUtils.isGuid(config.appCredentials.clientId)) {
-            throw new Error(ConfigurationErrorMessages.INVALID_CLIENT_ID);
+        const issues = ConfigurationUtils.getConfigurationIssues(config);
+
+        if (issues.length > 0) {
+            throw new ConfigurationError(issues);
         }
+    };
 
-        if (StringUtils.isEmpty(config.appCredentials.tenantId)) {
-            throw new Error(ConfigurationErrorMessages.NO_TENANT_INFO);
-        } else if (!ConfigurationUtils.isGuid(config.appCredentials.tenantId) && !Object.values(AADAuthorityConstants).includes(config.appCredentials.tenantId)) {
-            throw new Error(ConfigurationErrorMessages.INVALID_TENANT_INFO);
+    /**
+     * Checks the configuration object against the app settings schema,
+     * and against rules that span several fields
+     * @param {AppSettings} config: configuration object
+     * @returns {Array}
+     */
+    static getConfigurationIssues(config: AppSettings): ConfigurationIssue[] {
+        const issues: ConfigurationIssue[] = [];
+
+        ConfigurationUtils.validateSchema(config, AppSettingsSchema, "", issues);
+
+        if (config && config.appCredentials
+            && StringUtils.isEmpty(config.appCredentials.clientSecret)
+            && !config.appCredentials.clientCertificate
+            && !config.appCredentials.clientCertificateFile
+            && !config.appCredentials.clientAssertion
+            && !config.appCredentials.clientAssertionSource
+            && !config.appCredentials.keyVaultCredential
+            && !(config.credentialOptions && config.credentialOptions.provider)) {
+            issues.push({ path: "appCredentials", message: ConfigurationErrorMessages.NO_CLIENT_CREDENTIAL });
         }
 
-        if (StringUtils.isEmpty(config.appCredentials.clientSecret) && !config.appCredentials.clientCertificate) {
-            throw new Error(ConfigurationErrorMessages.NO_CLIENT_CREDENTIAL);
+        return issues;
+    }
+
+    /**
+     * Validates a configuration value against a schema, collecting any issues
+     * @param {any} value: configuration value
+     * @param {ConfigurationSchema} schema: expected shape of the value
+     * @param {string} path: path of the value in app settings
+     * @param {Array} issues: issues found so far
+     * @returns {void}
+     */
+    static validateSchema(value: any, schema: ConfigurationSchema, path: string, issues: ConfigurationIssue[]): void {
+        const issuePath = path || "appSettings";
+
+        if (value === undefined || value === null || value === "") {
+            if (schema.required) {
+                issues.push({ path: issuePath, message: schema.missingMessage || ConfigurationErrorMessages.IS_REQUIRED });
+            }
+            return;
         }
 
-        if (StringUtils.isEmpty(config.authRoutes.redirect)) {
-            throw new Error(ConfigurationErrorMessages.NO_REDIRECT_URI);
+        const type = Array.isArray(value) ? "array" : typeof value;
+
+        if (type !== schema.type) {
+            issues.push({ path: issuePath, message: `${ConfigurationErrorMessages.INVALID_TYPE} ${schema.type}` });
+            return;
         }
 
-        if (StringUtils.isEmpty(config.authRoutes.error)) {
-            throw new Error(ConfigurationErrorMessages.NO_ERROR_ROUTE);
+        if (schema.enum && !schema.enum.includes(value)) {
+            issues.push({ path: issuePath, message: `${ConfigurationErrorMessages.INVALID_VALUE} ${schema.enum.join(", ")}` });
         }
 
-        if (StringUtils.isEmpty(config.authRoutes.unauthorized)) {
-            throw new Error(ConfigurationErrorMessages.NO_UNAUTHORIZED_ROUTE);
+        if (schema.format) {
+            const formatMessage = ConfigurationUtils.checkFormat(value, schema.format);
+
+            if (formatMessage) {
+                issues.push({ path: issuePath, message: schema.invalidMessage || formatMessage });
+            }
+        }
+
+        if (schema.properties) {
+            Object.keys(schema.properties).forEach((key) => {
+                ConfigurationUtils.validateSchema(value[key], schema.properties[key], ConfigurationUtils.joinPath(path, key), issues);
+            });
+        }
+
+        if (schema.values) {
+            Object.keys(value).forEach((key) => {
+                ConfigurationUtils.validateSchema(value[key], { ...schema.values, required: true }, ConfigurationUtils.joinPath(path, key), issues);
+            });
         }
-    };
+
+        if (schema.items) {
+            value.forEach((item, index) => {
+                ConfigurationUtils.validateSchema(item, schema.items, `${issuePath}[${index}]`, issues);
+            });
+        }
+    }
+
+    /**
+     * Builds app settings from a .json or .js file, with environment variables
+     * overriding file values, and validates the result. For instance,
+     * MSAL_EXPRESS__APPCREDENTIALS__CLIENTSECRET sets appCredentials.clientSecret
+     * @param {string} filePath: path to a configuration file, if any
+     * @param {ConfigurationLoaderOptions} options: environment and variable prefix
+     * @returns {AppSettings}
+     */
+    static loadAppSettings(filePath?: string, options: ConfigurationLoaderOptions = {}): AppSettings {
+        let config: any = {};
+
+        if (filePath) {
+            const absolutePath = path.resolve(filePath);
+
+            switch (path.extname(absolutePath).toLowerCase()) {
+                case ".json":
+                    config = JSON.parse(fs.readFileSync(absolutePath, "utf8"));
+                    break;
+                case ".js": {
+                    const module = require(absolutePath);
+                    config = module && module.default ? module.default : module;
+                    break;
+                }
+                default:
+                    throw new Error(`${ConfigurationErrorMessages.UNSUPPORTED_CONFIGURATION_FILE}: ${filePath}`);
+            }
+        }
+
+        const env = options.env || process.env;
+        const prefix = (options.envPrefix || ConfigurationLoaderConstants.ENV_PREFIX).toUpperCase();
+
+        Object.keys(env)
+            .filter((variable) => variable.toUpperCase().startsWith(prefix))
+            .sort()
+            .forEach((variable) => {
+                const segments = variable.substring(prefix.length).split(ConfigurationLoaderConstants.ENV_SEPARATOR);
+                config = ConfigurationUtils.setValue(config, AppSettingsSchema, segments, env[variable]);
+            });
+
+        ConfigurationUtils.validateAppSettings(config);
+        return config;
+    }
 
 
     /**
@@ -77,42 +212,135 @@ export class ConfigurationUtils {
                     `https://${Constants.DEFAULT_AUTHORITY_HOST}/${config.appCredentials.tenantId}`,
                 ...(config.appCredentials.hasOwnProperty("clientSecret")) && { clientSecret: config.appCredentials.clientSecret },
                 ...(config.appCredentials.hasOwnProperty("clientCertificate")) && { clientCertificate: config.appCredentials.clientCertificate },
+                ...(config.appCredentials.hasOwnProperty("clientAssertion")) && { clientAssertion: config.appCredentials.clientAssertion },
                 knownAuthorities: config.b2cPolicies ?
-                    [UrlString.getDomainFromUrl(Object.entries(config.b2cPolicies)[0][1]["authority"])] // in B2C scenarios
+                    ConfigurationUtils.getKnownAuthorities(config) // in B2C scenarios
                     :
                     [],
+                // e.g. "cp1" to handle claims challenges (CAE)
+                clientCapabilities: (config.clientCapabilities || []) as [],
             },
             cache: {
                 cachePlugin,
             },
             system: {
                 loggerOptions: {
+                    // level and PII are filtered by the wrapper's logger, so they can be changed later on
                     loggerCallback: (logLevel, message, containsPii) => {
-                        if (containsPii) {
-                            return;
-                        }
-                        switch (logLevel) {
-                            case LogLevel.Error:
-                                console.error(message);
-                                return;
-                            case LogLevel.Info:
-                                console.info(message);
-                                return;
-                            case LogLevel.Verbose:
-                                console.debug(message);
-                                return;
-                            case LogLevel.Warning:
-                                console.warn(message);
-                                return;
-                        }
+                        Logger.logMsalMessage(logLevel, message, containsPii);
                     },
-                    piiLoggingEnabled: false,
+                    piiLoggingEnabled: true,
                     logLevel: LogLevel.Verbose,
                 },
             },
         };
     };
 
+    /**
+     * Gets the distinct authority domains of all configured B2C policies
+     * @param {AppSettings} config: configuration object
+     * @returns {Array}
+     */
+    static getKnownAuthorities(config: AppSettings): string[] {
+        const domains = Object.values(config.b2cPolicies)
+            .map((policy: Policy) => UrlString.getDomainFromUrl(policy.authority));
+
+        return Array.from(new Set(domains));
+    }
+
+    /**
+     * Checks the format of a configuration string
+     * @param {string} value: configuration value
+     * @param {string} format: one of ConfigurationFormats
+     * @returns {string} an error message, or null if the value is valid
+     */
+    private static checkFormat(value: string, format: string): string | null {
+        switch (format) {
+            case ConfigurationFormats.URL:
+                return ConfigurationUtils.isAbsoluteUrl(value) ? null : ConfigurationErrorMessages.INVALID_URL;
+            case ConfigurationFormats.ROUTE:
+                return value.startsWith("/") || ConfigurationUtils.isAbsoluteUrl(value) ? null : ConfigurationErrorMessages.INVALID_ROUTE;
+            case ConfigurationFormats.GUID:
+                return ConfigurationUtils.isGuid(value) ? null : ConfigurationErrorMessages.INVALID_GUID;
+            case ConfigurationFormats.TENANT:
+                return ConfigurationUtils.isGuid(value) || Object.values(AADAuthorityConstants).includes(value) ?
+                    null : ConfigurationErrorMessages.INVALID_TENANT_INFO;
+            case ConfigurationFormats.SCOPE:
+                return /^\S+$/.test(value) ? null : ConfigurationErrorMessages.INVALID_SCOPE;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Sets a value at a path given by environment variable segments. Segments are
+     * matched to schema keys regardless of case, and values are parsed as JSON
+     * unless a string is expected. Objects along the path are copied, not mutated
+     * @param {any} target: object to set the value in
+     * @param {ConfigurationSchema} schema: schema of the target, if known
+     * @param {Array} segments: remaining path segments
+     * @param {string} value: raw value from the environment
+     * @returns {any}
+     */
+    private static setValue(target: any, schema: ConfigurationSchema, segments: string[], value: string): any {
+        const current = target && typeof target === "object" ? target : {};
+
+        const knownKeys = [
+            ...Object.keys(current),
+            ...(schema && schema.properties ? Object.keys(schema.properties) : []),
+        ];
+
+        const key = knownKeys.find((k) => k.toLowerCase() === segments[0].toLowerCase()) || segments[0];
+
+        const childSchema = schema ?
+            (schema.properties && schema.properties[key]) || schema.values
+            :
+            undefined;
+
+        if (segments.length > 1) {
+            return { ...current, [key]: ConfigurationUtils.setValue(current[key], childSchema, segments.slice(1), value) };
+        }
+
+        return { ...current, [key]: ConfigurationUtils.parseValue(value, childSchema) };
+    }
+
+    /**
+     * Parses a raw environment value according to its schema
+     * @param {string} value: raw value from the environment
+     * @param {ConfigurationSchema} schema: schema of the value, if known
+     * @returns {any}
+     */
+    private static parseValue(value: string, schema: ConfigurationSchema): any {
+        if (schema && schema.type === "string") {
+            return value;
+        }
+
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            return value;
+        }
+    }
+
+    /**
+     * Joins a key to a configuration path
+     * @param {string} path: parent path
+     * @param {string} key: key of the child value
+     * @returns {string}
+     */
+    private static joinPath(path: string, key: string): string {
+        return path ? `${path}.${key}` : key;
+    }
+
+    /**
+     * Checks if a string is an absolute http(s) URL
+     * @param {string} url
+     * @returns {boolean}
+     */
+    private static isAbsoluteUrl(url: string): boolean {
+        return /^https?:\/\/[^\s/]+(\/\S*)?$/i.test(url);
+    }
+
     /**
      * verifies if a string is  GUID
      * @param guid
@@ -13,6 +13,25 @@ export const AppStages = {
     ACQUIRE_TOKEN: "acquire_token",
 };
 
+/**
+ * Where users are sent after sign-in and sign-out, if no successRedirect is given
+ */
+export const RouteConstants = {
+    DEFAULT_SUCCESS_REDIRECT: "/",
+};
+
+/**
+ * Events emitted by AuthProvider
+ */
+export const AuthEventTypes = {
+    SIGN_IN_SUCCEEDED: "signInSucceeded",
+    SIGN_IN_FAILED: "signInFailed",
+    TOKEN_ACQUIRED: "tokenAcquired",
+    INTERACTION_REQUIRED: "interactionRequired",
+    ACCESS_DENIED: "accessDenied",
+    SIGNED_OUT: "signedOut",
+} as const;
+
 /**
  * String constants related to AAD Authority
  */
@@ -22,6 +41,27 @@ export const AADAuthorityConstants = {
     CONSUMERS: "consumers"
 }
 
+/**
+ * Constants for OpenID Connect metadata and sign-out requests. The logout
+ * path is used when the metadata of an authority cannot be obtained
+ */
+export const OIDCConstants = {
+    METADATA_PATH: "/v2.0/.well-known/openid-configuration",
+    LOGOUT_PATH: "/oauth2/v2.0/logout",
+    POST_LOGOUT_REDIRECT_URI: "post_logout_redirect_uri",
+    LOGOUT_HINT: "logout_hint",
+    LOGIN_HINT_CLAIM: "login_hint",
+};
+
+/**
+ * Default names of B2C policies in app settings
+ */
+export const B2CPolicyNames = {
+    SIGN_UP_SIGN_IN: "signUpSignIn",
+    RESET_PASSWORD: "resetPassword",
+    EDIT_PROFILE: "editProfile",
+}
+
 /**
  * String constants related to AAD Authority
  */
@@ -30,22 +70,168 @@ export const KeyVaultCredentialTypes = {
     CERTIFICATE: "certificate",
 }
 
+/**
+ * Constants for loading and refreshing client credentials. Refresh interval is in seconds,
+ * and client assertions are refreshed when they expire within the refresh offset (in seconds)
+ */
+export const CredentialConstants = {
+    REFRESH_INTERVAL: 3600,
+    INVALID_CLIENT_ERROR: "invalid_client",
+    CLIENT_SECRET_VARIABLE: "AZURE_CLIENT_SECRET",
+    CERTIFICATE_THUMBPRINT_VARIABLE: "AZURE_CLIENT_CERTIFICATE_THUMBPRINT",
+    CERTIFICATE_PRIVATE_KEY_VARIABLE: "AZURE_CLIENT_CERTIFICATE_PRIVATE_KEY",
+    FEDERATED_TOKEN_FILE_VARIABLE: "AZURE_FEDERATED_TOKEN_FILE",
+    ASSERTION_REFRESH_OFFSET: 300,
+};
+
+/**
+ * Constants for loading client certificates. Expiry warnings start
+ * the given number of days before a certificate expires
+ */
+export const CertificateConstants = {
+    PFX_EXTENSIONS: [".pfx", ".p12"],
+    PKCS12_CONTENT_TYPE: "application/x-pkcs12",
+    EXPIRY_WARNING_DAYS: 30,
+};
+
 /**
  * Constants used in access control scenarios
  */
 export const AccessConstants = {
     GROUPS: "groups",
     ROLES: "roles",
-    CLAIM_NAMES: "_claim_name",
+    SCOPES: "scp",
+    APP_ONLY_TOKEN_TYPE: "app",
+    CLAIM_NAMES: "_claim_names",
     CLAIM_SOURCES: "_claim_sources",
     PAGINATION_LINK: "@odata.nextLink",
-    GRAPH_MEMBERS_ENDPOINT: "https://graph.microsoft.com/v1.0/me/memberOf",
+    GRAPH_MEMBERS_ENDPOINT: "https://graph.microsoft.com/v1.0/me/memberOf/microsoft.graph.group?$select=id",
+    GRAPH_TRANSITIVE_MEMBERS_ENDPOINT: "https://graph.microsoft.com/v1.0/me/transitiveMemberOf/microsoft.graph.group?$select=id",
+    GRAPH_MEMBER_GROUPS_ENDPOINT: "https://graph.microsoft.com/v1.0/me/getMemberGroups",
     GRAPH_MEMBER_SCOPES: "User.Read GroupMember.Read.All"
 };
 
+/**
+ * Ways of resolving group memberships when a groups overage occurs.
+ * transitive and getMemberGroups include memberships via nested groups
+ */
+export const GroupMembershipTypes = {
+    DIRECT: "direct",
+    TRANSITIVE: "transitive",
+    GET_MEMBER_GROUPS: "getMemberGroups",
+};
+
+/**
+ * Defaults for caching groups resolved after an overage
+ */
+export const GroupOverageConstants = {
+    CACHE_TTL: 300, // in seconds
+    CACHE_MAX_ENTRIES: 1000,
+};
+
+/**
+ * Constants used for protecting the state parameter
+ */
+export const StateConstants = {
+    VERSION: "v1",
+    ALGORITHM: "aes-256-gcm" as const,
+    KEY_LENGTH: 32,
+    IV_LENGTH: 12,
+    TAG_LENGTH: 16,
+    DEFAULT_EXPIRY: 900, // in seconds
+    MAX_PENDING_FLOWS: 10, // per session
+};
+
+/**
+ * How guards respond when a request fails a check. "negotiate"
+ * redirects browser navigation and sends JSON to everything else
+ */
+export const GuardResponseTypes = {
+    REDIRECT: "redirect",
+    JSON: "json",
+    NEGOTIATE: "negotiate",
+};
+
+export const HttpStatusCodes = {
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
+};
+
+/**
+ * Error codes for the WWW-Authenticate header. For more information, visit:
+ * https://datatracker.ietf.org/doc/html/rfc6750#section-3.1
+ */
+export const BearerErrorCodes = {
+    INVALID_TOKEN: "invalid_token",
+    INSUFFICIENT_SCOPE: "insufficient_scope",
+};
+
+/**
+ * Defaults for caching and fetching token signing keys
+ */
+export const SigningKeyConstants = {
+    CACHE_MAX_AGE: 24 * 60 * 60 * 1000, // in milliseconds
+    CACHE_MAX_ENTRIES: 10,
+    REQUESTS_PER_MINUTE: 10,
+};
+
+/**
+ * Defaults for validating token claims
+ */
+export const TokenValidationConstants = {
+    CLOCK_SKEW: 300, // in seconds
+    V1_ISSUER_HOST: "sts.windows.net",
+};
+
+/**
+ * Client capabilities and claims challenges, used for Conditional Access
+ * and continuous access evaluation (CAE)
+ */
+export const ClaimsChallengeConstants = {
+    CLIENT_CAPABILITY_CAE: "cp1",
+    INSUFFICIENT_CLAIMS: "insufficient_claims",
+    WWW_AUTHENTICATE_HEADER: "www-authenticate",
+};
+
+/**
+ * Defaults for calling web APIs. Delays and timeouts are in milliseconds
+ */
+export const FetchConstants = {
+    MAX_RETRIES: 3,
+    RETRY_DELAY: 1000,
+    MAX_RETRY_DELAY: 60000,
+    TIMEOUT: 30000,
+    MAX_PAGES: 100,
+    MAX_ITEMS: 10000,
+    RETRY_STATUS_CODES: [429, 503],
+    RETRY_AFTER_HEADER: "retry-after",
+    TIMEOUT_ERROR_CODE: "ECONNABORTED",
+};
+
+/**
+ * Constants used in logging
+ */
+export const LoggerConstants = {
+    WRAPPER_SOURCE: "@azure-samples/msal-express-wrapper@0.1.0",
+    MSAL_SOURCE: "@azure/msal-node",
+    CORRELATION_ID_HEADER: "x-correlation-id",
+};
+
+export const LogFormats = {
+    TEXT: "text",
+    JSON: "json",
+};
+
 export const InfoMessages = {
     REQUEST_FOR_RESOURCE: "Request made to web API",
-    OVERAGE_OCCURRED: "User has too many groups. Groups overage claim occurred"
+    OVERAGE_OCCURRED: "User has too many groups. Groups overage claim occurred",
+    REQUEST_THROTTLED: "Request to web API was throttled with status",
+    PAGINATION_LIMIT_REACHED: "Maximum page or item count reached. Remaining pages are not fetched",
+    EPHEMERAL_STATE_KEY: "No state keys provided. Using an ephemeral key; state will not survive restarts or load-balancing",
+    CREDENTIAL_REFRESHED: "Client credential has changed. MSAL client rebuilt with the new credential",
+    INVALID_CLIENT_CREDENTIAL: "Client credential was rejected. Refreshing it from the credential provider",
+    CERTIFICATE_EXPIRING: "Client certificate is about to expire",
+    METADATA_NOT_OBTAINED: "OpenID Connect metadata cannot be obtained. Using the default logout endpoint",
 }
 
 /**
@@ -53,6 +239,7 @@ export const InfoMessages = {
  */
 export const ErrorMessages = {
     NOT_PERMITTED: "Not permitted",
+    NOT_AUTHENTICATED: "User is not authenticated",
     INVALID_TOKEN: "Invalid token",
     CANNOT_DETERMINE_APP_STAGE: "Cannot determine application stage",
     CANNOT_VALIDATE_TOKEN: "Cannot validate token",
@@ -63,16 +250,44 @@ export const ErrorMessages = {
     TOKEN_NOT_FOUND: "No token found",
     TOKEN_NOT_DECODED: "Token cannot be decoded",
     TOKEN_NOT_VERIFIED: "Token cannot be verified",
+    INVALID_ISSUER: "Token issuer is invalid",
+    INVALID_AUDIENCE: "Token audience is invalid",
+    TOKEN_EXPIRED: "Token has expired",
+    TOKEN_NOT_YET_VALID: "Token is not yet valid",
+    TOKEN_ISSUED_IN_FUTURE: "Token is issued in the future",
     KEYS_NOT_OBTAINED: "Signing keys cannot be obtained",
     STATE_NOT_FOUND: "State not found",
+    INVALID_STATE: "State is invalid or has been tampered with",
+    STATE_EXPIRED: "State has expired",
+    STATE_NOT_BOUND: "State was not issued to this session, or has already been used",
     USER_HAS_NO_ROLE: "User does not have any roles",
     USER_NOT_IN_ROLE: "User does not have this role",
     USER_HAS_NO_GROUP: "User does not have any groups",
     USER_NOT_IN_GROUP: "User does not have this group",
+    TOKEN_HAS_NO_SCOPE: "Token does not have a required scope",
     METHOD_NOT_ALLOWED: "Method not allowed for this route",
     RULE_NOT_FOUND: "No rule found for this route",
+    POLICY_NOT_FOUND: "No B2C policy found with this name",
+    RESOURCE_NOT_FOUND: "No resource found with this name",
+    OWNED_RESOURCE_NOT_FOUND: "No owned resource found for this route",
+    DOWNSTREAM_API_FAILED: "Web API call failed with status",
+    EVENT_LISTENER_FAILED: "An event listener threw an error",
+    SIGN_IN_REJECTED: "Sign-in rejected by a sign-in hook",
+    SIGN_IN_HOOK_FAILED: "A sign-in hook threw an error",
+    REQUEST_TIMED_OUT: "Request to web API timed out",
+    TENANT_NOT_ALLOWED: "Tenant is not allowed to access this app",
     SESSION_NOT_FOUND: "No session found for this request",
-    KEY_VAULT_CONFIG_NOT_FOUND: "No coordinates found for Key Vault"
+    CLAIMS_CHALLENGE_NOT_FOUND: "No claims challenge found in response",
+    KEY_VAULT_CONFIG_NOT_FOUND: "No coordinates found for Key Vault",
+    KEY_VAULT_CREDENTIAL_FAILED: "Credential cannot be obtained from Key Vault",
+    INVALID_KEY_VAULT_CREDENTIAL_TYPE: "Key Vault credential type should be secret or certificate",
+    CREDENTIAL_NOT_FOUND: "No client credential returned by credential provider",
+    CREDENTIAL_REFRESH_FAILED: "Client credential cannot be refreshed. Keeping the current credential",
+    CERTIFICATE_EXPIRED: "Client certificate has expired",
+    ACCOUNT_NOT_REMOVED: "Account cannot be removed from token cache",
+    ASSERTION_SOURCE_NOT_FOUND: "No client assertion source found. Provide a token file path or a callback",
+    BUILD_ASYNC_REQUIRED: "Client credential must be obtained asynchronously. Use AuthProvider.buildAsync instead of the constructor",
+    INVALID_CERTIFICATE: "No private key, or no certificate matching the private key, found in certificate",
 };
 
 export const ConfigurationErrorMessages = {
@@ -83,12 +298,42 @@ export const ConfigurationErrorMessages = {
     NO_CLIENT_CREDENTIAL: "No client credential provided!",
     NO_REDIRECT_URI: "No redirect URI provided!",
     NO_ERROR_ROUTE: "No error route provided!",
-    NO_UNAUTHORIZED_ROUTE: "No unauthorized route provided!"
+    NO_UNAUTHORIZED_ROUTE: "No unauthorized route provided!",
+    INVALID_CONFIGURATION: "Invalid configuration",
+    IS_REQUIRED: "Value is required",
+    INVALID_TYPE: "Value should be of type",
+    INVALID_VALUE: "Value should be one of",
+    INVALID_URL: "Value should be an absolute http(s) URL",
+    INVALID_ROUTE: "Value should be a path starting with / or an absolute URL",
+    INVALID_GUID: "Value should be a GUID",
+    INVALID_SCOPE: "Value should be a single scope, without whitespace",
+    UNSUPPORTED_CONFIGURATION_FILE: "Configuration file should be a .json or .js file",
 }
 
+/**
+ * Formats of configuration values, checked when validating app settings
+ */
+export const ConfigurationFormats = {
+    URL: "url",
+    ROUTE: "route",
+    GUID: "guid",
+    TENANT: "tenant",
+    SCOPE: "scope",
+};
+
+/**
+ * Defaults for loading app settings from environment variables, e.g.
+ * MSAL_EXPRESS__APPCREDENTIALS__CLIENTSECRET sets appCredentials.clientSecret
+ */
+export const ConfigurationLoaderConstants = {
+    ENV_PREFIX: "MSAL_EXPRESS__",
+    ENV_SEPARATOR: "__",
+};
+
 /**
  * For more information, visit: https://login.microsoftonline.com/error
  */
 export const ErrorCodes = {
     65001: "AADSTS65001", // consent required
+    90118: "AADB2C90118", // user forgot password (B2C)
 };
\ No newline at end of file
@@ -0,0 +1,161 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import fs from "fs";
+import { StringUtils } from "@azure/msal-common";
+
+import {
+    ClientAssertionSource,
+    ClientCredential,
+    CredentialProvider,
+    EnvironmentCredentialOptions,
+    FileCredentialOptions,
+    KeyVaultCredential
+} from "./Types";
+
+import { CredentialConstants, ErrorMessages } from "./Constants";
+import { KeyVaultManager } from "./KeyVaultManager";
+import { CertificateUtils } from "./CertificateUtils";
+
+/**
+ * Gets the client secret or certificate from Key Vault
+ */
+export class KeyVaultCredentialProvider implements CredentialProvider {
+    private keyVaultCredential: KeyVaultCredential;
+    private keyVaultManager: KeyVaultManager;
+
+    /**
+     * @param {KeyVaultCredential} keyVaultCredential: coordinates of the credential
+     * @constructor
+     */
+    constructor(keyVaultCredential: KeyVaultCredential) {
+        this.keyVaultCredential = keyVaultCredential;
+        this.keyVaultManager = new KeyVaultManager();
+    }
+
+    getCredential = async (): Promise<ClientCredential> => {
+        return this.keyVaultManager.getCredential(this.keyVaultCredential);
+    }
+}
+
+/**
+ * Gets the client secret, or the certificate thumbprint and private key, from
+ * environment variables. Variables are read again on each refresh
+ */
+export class EnvironmentCredentialProvider implements CredentialProvider {
+    private options: EnvironmentCredentialOptions;
+
+    /**
+     * @param {EnvironmentCredentialOptions} options: names of the variables to read
+     * @constructor
+     */
+    constructor(options: EnvironmentCredentialOptions = {}) {
+        this.options = options;
+    }
+
+    getCredential = async (): Promise<ClientCredential> => {
+        const env = this.options.env || process.env;
+
+        const clientSecret = env[this.options.clientSecretVariable || CredentialConstants.CLIENT_SECRET_VARIABLE];
+        const thumbprint = env[this.options.thumbprintVariable || CredentialConstants.CERTIFICATE_THUMBPRINT_VARIABLE];
+        const privateKey = env[this.options.privateKeyVariable || CredentialConstants.CERTIFICATE_PRIVATE_KEY_VARIABLE];
+
+        if (!StringUtils.isEmpty(clientSecret)) {
+            return { clientSecret };
+        }
+
+        if (!StringUtils.isEmpty(thumbprint) && !StringUtils.isEmpty(privateKey)) {
+            return { clientCertificate: { thumbprint, privateKey } };
+        }
+
+        throw new Error(ErrorMessages.CREDENTIAL_NOT_FOUND);
+    }
+}
+
+/**
+ * Gets the client secret, a PEM or PFX certificate, or the certificate private key,
+ * from local files, e.g. secrets mounted into a container. Files are read again on each refresh
+ */
+export class FileCredentialProvider implements CredentialProvider {
+    private options: FileCredentialOptions;
+
+    /**
+     * @param {FileCredentialOptions} options: paths of the files to read
+     * @constructor
+     */
+    constructor(options: FileCredentialOptions) {
+        this.options = options;
+    }
+
+    getCredential = async (): Promise<ClientCredential> => {
+        if (this.options.clientSecretPath) {
+            const clientSecret = await fs.promises.readFile(this.options.clientSecretPath, "utf8");
+            return { clientSecret: clientSecret.trim() };
+        }
+
+        if (this.options.certificateFile) {
+            return { clientCertificate: CertificateUtils.loadCertificate(this.options.certificateFile) };
+        }
+
+        if (this.options.privateKeyPath && !StringUtils.isEmpty(this.options.thumbprint)) {
+            const privateKey = await fs.promises.readFile(this.options.privateKeyPath, "utf8");
+            return { clientCertificate: { thumbprint: this.options.thumbprint, privateKey } };
+        }
+
+        throw new Error(ErrorMessages.CREDENTIAL_NOT_FOUND);
+    }
+}
+
+/**
+ * Gets a client assertion, e.g. a federated token for workload identity, from a callback
+ * or a token file. The file is read again on each refresh, as it is renewed by the platform
+ */
+export class ClientAssertionCredentialProvider implements CredentialProvider {
+    private source: ClientAssertionSource;
+
+    /**
+     * @param {ClientAssertionSource} source: token file path or callback
+     * @constructor
+     */
+    constructor(source: ClientAssertionSource = {}) {
+        this.source = source;
+    }
+
+    getCredential = async (): Promise<ClientCredential> => {
+        if (this.source.getAssertion) {
+            return { clientAssertion: await this.source.getAssertion() };
+        }
+
+        const clientAssertion = await fs.promises.readFile(this.getTokenFilePath(), "utf8");
+        return { clientAssertion: clientAssertion.trim() };
+    }
+
+    /**
+     * Reads the client assertion from the token file synchronously, e.g. when
+     * constructing AuthProvider. Callbacks are async, so they are not supported here
+     * @returns {ClientCredential}
+     */
+    getCredentialSync = (): ClientCredential => {
+        if (this.source.getAssertion) {
+            throw new Error(ErrorMessages.BUILD_ASYNC_REQUIRED);
+        }
+
+        return { clientAssertion: fs.readFileSync(this.getTokenFilePath(), "utf8").trim() };
+    }
+
+    /**
+     * Gets the path of the token file, defaulting to the one set by workload identity
+     * @returns {string}
+     */
+    private getTokenFilePath(): string {
+        const tokenFilePath = this.source.tokenFilePath || process.env[CredentialConstants.FEDERATED_TOKEN_FILE_VARIABLE];
+
+        if (StringUtils.isEmpty(tokenFilePath)) {
+            throw new Error(ErrorMessages.ASSERTION_SOURCE_NOT_FOUND);
+        }
+
+        return tokenFilePath;
+    }
+}
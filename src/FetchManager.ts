@@ -3,17 +3,50 @@
  * Licensed under the MIT License.
  */
 
-import axios, { AxiosResponse, AxiosRequestConfig } from "axios";
+import axios, { AxiosResponse, AxiosRequestConfig, Method } from "axios";
 import { StringUtils } from "@azure/msal-common";
 
+import {
+    DownstreamApiOptions,
+    DownstreamApiResponse,
+    FetchOptions,
+    OpenIdConfiguration
+} from "./Types";
+
 import { 
     AccessConstants, 
+    ClaimsChallengeConstants,
+    FetchConstants,
+    OIDCConstants,
     InfoMessages, 
     ErrorMessages 
 } from "./Constants";
 
 import { Logger } from "./Logger";
 
+/**
+ * Error thrown when a web API responds with a non-success status code
+ */
+export class DownstreamApiError extends Error {
+    status: number;
+    headers: { [header: string]: string };
+    data: any;
+    claimsChallenge: string | null;
+
+    constructor(response: DownstreamApiResponse) {
+        super(`${ErrorMessages.DOWNSTREAM_API_FAILED}: ${response.status}`);
+        this.name = "DownstreamApiError";
+        Object.setPrototypeOf(this, DownstreamApiError.prototype);
+
+        this.status = response.status;
+        this.headers = response.headers;
+        this.data = response.data;
+        this.claimsChallenge = FetchManager.getClaimsChallenge(
+            response.headers[ClaimsChallengeConstants.WWW_AUTHENTICATE_HEADER]
+        );
+    }
+}
+
 export class FetchManager {
 
     /**
@@ -21,53 +54,204 @@ export class FetchManager {
      * using the authorization bearer token scheme
      * @param {string} endpoint 
      * @param {string} accessToken 
+     * @param {FetchOptions} fetchOptions: retry, timeout and pagination limits
+     * @returns {Promise}
+     */
+    static callApiEndpoint = async (endpoint: string, accessToken: string, fetchOptions?: FetchOptions): Promise<any> => {
+        const response = await FetchManager.callApi(endpoint, accessToken, {}, fetchOptions);
+        return response.data;
+    }
+
+    /**
+     * Calls a web API with a raw access token using the authorization bearer token scheme.
+     * JSON bodies are parsed, and non-success responses are thrown as DownstreamApiError.
+     * Throttled requests (429 and 503) are retried with exponential backoff, or after the
+     * delay given by the Retry-After header
+     * @param {string} url: web API URL
+     * @param {string} accessToken: access token for the web API
+     * @param {DownstreamApiOptions} options: method, body, headers and query of the request
+     * @param {FetchOptions} fetchOptions: retry, timeout and pagination limits
      * @returns {Promise}
      */
-    static callApiEndpoint = async (endpoint: string, accessToken: string): Promise<any> => {
+    static callApi = async <T = any>(
+        url: string,
+        accessToken: string,
+        options: DownstreamApiOptions = {},
+        fetchOptions?: FetchOptions
+    ): Promise<DownstreamApiResponse<T>> => {
 
         if (StringUtils.isEmpty(accessToken)) {
-            throw new Error(ErrorMessages.TOKEN_NOT_FOUND)
+            throw new Error(ErrorMessages.TOKEN_NOT_FOUND);
         }
 
-        const options: AxiosRequestConfig = {
+        const { maxRetries, timeout } = FetchManager.getFetchOptions(fetchOptions);
+
+        const config: AxiosRequestConfig = {
+            url: url,
+            method: (options.method || "GET") as Method,
+            data: options.body,
+            params: options.query,
             headers: {
+                ...options.headers,
                 Authorization: `Bearer ${accessToken}`
-            }
+            },
+            timeout: timeout,
+            // non-success responses are handled below
+            validateStatus: () => true,
         };
 
-        try {
+        let response: AxiosResponse<T>;
+
+        for (let attempt = 0; ; attempt++) {
             Logger.logInfo(InfoMessages.REQUEST_FOR_RESOURCE);
-            const response: AxiosResponse = await axios.get(endpoint, options);
-            return response.data;
-        } catch (error) {
-            console.log(error)
-            return error;
+
+            try {
+                response = await axios.request(config);
+            } catch (error) {
+                if (error.code === FetchConstants.TIMEOUT_ERROR_CODE) {
+                    Logger.logError(`${ErrorMessages.REQUEST_TIMED_OUT}: ${url}`);
+                    throw new Error(`${ErrorMessages.REQUEST_TIMED_OUT}: ${url}`);
+                }
+
+                throw error;
+            }
+
+            if (!FetchConstants.RETRY_STATUS_CODES.includes(response.status) || attempt >= maxRetries) {
+                break;
+            }
+
+            const delay = FetchManager.getRetryDelay(
+                response.headers[FetchConstants.RETRY_AFTER_HEADER],
+                attempt,
+                fetchOptions
+            );
+
+            Logger.logWarning(`${InfoMessages.REQUEST_THROTTLED}: ${response.status}. Retrying in ${delay} ms`);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+
+        const result: DownstreamApiResponse<T> = {
+            status: response.status,
+            headers: response.headers,
+            data: response.data,
+        };
+
+        if (response.status < 200 || response.status >= 300) {
+            Logger.logError(`${ErrorMessages.DOWNSTREAM_API_FAILED}: ${response.status}`);
+            throw new DownstreamApiError(result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Gets the OpenID Connect metadata document of an authority
+     * @param {string} authority: AAD or B2C authority, e.g. https://login.microsoftonline.com/{tenantId}
+     * @param {FetchOptions} fetchOptions: retry, timeout and pagination limits
+     * @returns {Promise}
+     */
+    static getOpenIdConfiguration = async (authority: string, fetchOptions?: FetchOptions): Promise<OpenIdConfiguration> => {
+        const { timeout } = FetchManager.getFetchOptions(fetchOptions);
+
+        const response = await axios.get<OpenIdConfiguration>(
+            `${authority.replace(/\/+$/, "")}${OIDCConstants.METADATA_PATH}`,
+            { timeout: timeout }
+        );
+
+        return response.data;
+    }
+
+    /**
+     * Gets the claims challenge from the WWW-Authenticate header of a web API response, e.g.
+     * Bearer realm="", error="insufficient_claims", claims="eyJhY2Nlc3NfdG9rZW4iOnsi..."
+     * @param {string} wwwAuthenticate: value of the WWW-Authenticate header
+     * @returns {string} decoded claims, or null if there is no challenge
+     */
+    static getClaimsChallenge = (wwwAuthenticate: string): string | null => {
+        if (StringUtils.isEmpty(wwwAuthenticate)) {
+            return null;
         }
+
+        const match = /claims="([^"]+)"/i.exec(wwwAuthenticate);
+
+        if (!match) {
+            return null;
+        }
+
+        return Buffer.from(match[1], "base64").toString("utf8");
     }
 
     /**
-     * Handles queries against Microsoft Graph that return multiple pages of data  
+     * Handles queries against Microsoft Graph that return multiple pages of data.
+     * Stops at the maximum page or item count, returning the data collected so far
      * @param {string} accessToken: access token required by endpoint 
      * @param {string} nextPage: next page link
      * @param {Array} data: stores data from each page
+     * @param {FetchOptions} fetchOptions: retry, timeout and pagination limits
      * @returns {Promise}
      */
-    static handlePagination = async (accessToken: string, nextPage: string, data: string[] = []): Promise<any> => {
+    static handlePagination = async (
+        accessToken: string,
+        nextPage: string,
+        data: string[] = [],
+        fetchOptions?: FetchOptions
+    ): Promise<string[]> => {
+        const { maxPages, maxItems } = FetchManager.getFetchOptions(fetchOptions);
 
-        try {
-            const graphResponse = await FetchManager.callApiEndpoint(nextPage, accessToken);
-            graphResponse["value"].map((v) => data.push(v.id));
-    
-            if (graphResponse[AccessConstants.PAGINATION_LINK]) {
-                return await FetchManager.handlePagination(accessToken, graphResponse[AccessConstants.PAGINATION_LINK], data)
-            } else {
-                return data;
+        for (let page = 0; nextPage; page++) {
+            if (page >= maxPages || data.length >= maxItems) {
+                Logger.logWarning(InfoMessages.PAGINATION_LIMIT_REACHED);
+                return data.slice(0, maxItems);
             }
-        } catch (error) {
-            console.log(error);
-            return error;
+
+            const graphResponse = await FetchManager.callApiEndpoint(nextPage, accessToken, fetchOptions);
+            graphResponse["value"].map((v) => data.push(v.id));
+
+            nextPage = graphResponse[AccessConstants.PAGINATION_LINK];
         }
-    
+
+        return data.slice(0, maxItems);
+    }
+
+    /**
+     * Gets the delay before retrying a throttled request. Retry-After is given either
+     * in seconds or as an HTTP date, and exponential backoff is used in its absence
+     * @param {string} retryAfter: value of the Retry-After header
+     * @param {number} attempt: number of attempts made so far, starting at 0
+     * @param {FetchOptions} fetchOptions: retry, timeout and pagination limits
+     * @returns {number} delay in milliseconds
+     */
+    static getRetryDelay = (retryAfter: string, attempt: number, fetchOptions?: FetchOptions): number => {
+        const { retryDelay, maxRetryDelay } = FetchManager.getFetchOptions(fetchOptions);
+
+        let delay = retryDelay * Math.pow(2, attempt);
+
+        if (!StringUtils.isEmpty(retryAfter)) {
+            const seconds = Number(retryAfter);
+
+            delay = !isNaN(seconds) ?
+                seconds * 1000
+                :
+                new Date(retryAfter).getTime() - Date.now();
+        }
+
+        return Math.min(Math.max(isNaN(delay) ? retryDelay : delay, 0), maxRetryDelay);
+    }
+
+    /**
+     * Applies defaults to fetch options
+     * @param {FetchOptions} fetchOptions: retry, timeout and pagination limits
+     * @returns {FetchOptions}
+     */
+    private static getFetchOptions = (fetchOptions: FetchOptions = {}): Required<FetchOptions> => {
+        return {
+            maxRetries: fetchOptions.maxRetries !== undefined ? fetchOptions.maxRetries : FetchConstants.MAX_RETRIES,
+            retryDelay: fetchOptions.retryDelay !== undefined ? fetchOptions.retryDelay : FetchConstants.RETRY_DELAY,
+            maxRetryDelay: fetchOptions.maxRetryDelay !== undefined ? fetchOptions.maxRetryDelay : FetchConstants.MAX_RETRY_DELAY,
+            timeout: fetchOptions.timeout !== undefined ? fetchOptions.timeout : FetchConstants.TIMEOUT,
+            maxPages: fetchOptions.maxPages !== undefined ? fetchOptions.maxPages : FetchConstants.MAX_PAGES,
+            maxItems: fetchOptions.maxItems !== undefined ? fetchOptions.maxItems : FetchConstants.MAX_ITEMS,
+        };
     }
 
 }
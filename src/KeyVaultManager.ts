@@ -1,95 +1,63 @@
-import { CertificateClient, KeyVaultCertificate } from "@azure/keyvault-certificates";
 import { DefaultAzureCredential } from "@azure/identity";
 import { KeyVaultSecret, SecretClient } from "@azure/keyvault-secrets";
 
-import { AppSettings } from "./Types";
-import { KeyVaultCredentialTypes } from "./Constants";
+import { ClientCredential, KeyVaultCredential } from "./Types";
+import { CertificateConstants, ErrorMessages, KeyVaultCredentialTypes } from "./Constants";
+import { CertificateUtils } from "./CertificateUtils";
+import { Logger } from "./Logger";
 
 export class KeyVaultManager {
 
     /**
-     * Fetches credentials from Key Vault and updates appSettings
-     * @param {AppSettings} config 
+     * Fetches a client secret or certificate from Key Vault. Errors are logged and rethrown
+     * @param {KeyVaultCredential} keyVaultCredential: coordinates of the credential
      * @returns {Promise}
      */
-    async getCredentialFromKeyVault(config: AppSettings): Promise<AppSettings> {
+    async getCredential(keyVaultCredential: KeyVaultCredential): Promise<ClientCredential> {
 
         const credential = new DefaultAzureCredential();
 
-        if (!config.appCredentials.keyVaultCredential) {
-            return config
-        }
+        try {
+            switch (keyVaultCredential.credentialType) {
+                case KeyVaultCredentialTypes.SECRET: {
+                    const secretResponse = await this.getSecretCredential(keyVaultCredential, credential);
 
-        switch (config.appCredentials.keyVaultCredential.credentialType) {
-            case KeyVaultCredentialTypes.SECRET: {
-                try {
-                    const secretResponse = await this.getSecretCredential(config, credential);
-                    config.appCredentials.clientSecret = secretResponse.value;
-                    return config;
-                } catch (error) {
-                    console.log(error);
+                    return {
+                        clientSecret: secretResponse.value,
+                    };
                 }
-                break;
-            }
 
-            case KeyVaultCredentialTypes.CERTIFICATE: {
-                try {
-                    const certificateResponse = await this.getCertificateCredential(config, credential);
-                    const secretResponse = await this.getSecretCredential(config, credential);
+                case KeyVaultCredentialTypes.CERTIFICATE: {
+                    // the secret backing a certificate holds its private key and chain, as a PFX or PEM file
+                    const secretResponse = await this.getSecretCredential(keyVaultCredential, credential);
 
-                    config.appCredentials.clientCertificate = {
-                        thumbprint: certificateResponse.properties.x509Thumbprint.toString(),
-                        privateKey: secretResponse.value.split('-----BEGIN CERTIFICATE-----\n')[0]
-                    }
-                    return config;
-                } catch (error) {
-                    console.log(error);
+                    return {
+                        clientCertificate: secretResponse.properties.contentType === CertificateConstants.PKCS12_CONTENT_TYPE ?
+                            CertificateUtils.parsePfx(Buffer.from(secretResponse.value, "base64"))
+                            :
+                            CertificateUtils.parsePem(secretResponse.value),
+                    };
                 }
-                break;
-            }
-
-            default:
-                break;
-        }
-    };
-
-    /**
-     * Gets a certificate credential from Key Vault
-     * @param {AppSettings} config 
-     * @param {DefaultAzureCredential} credential 
-     * @returns {Promise}
-     */
-    async getCertificateCredential(config: AppSettings, credential: DefaultAzureCredential): Promise<KeyVaultCertificate> {
 
-        // Initialize secretClient with credentials
-        const secretClient = new CertificateClient(config.appCredentials.keyVaultCredential.keyVaultUrl, credential);
-
-        try {
-            const keyVaultCertificate = await secretClient.getCertificate(config.appCredentials.keyVaultCredential.credentialName);
-            return keyVaultCertificate;
+                default:
+                    throw new Error(ErrorMessages.INVALID_KEY_VAULT_CREDENTIAL_TYPE);
+            }
         } catch (error) {
-            console.log(error);
-            return error;
+            Logger.logError(`${ErrorMessages.KEY_VAULT_CREDENTIAL_FAILED}: ${error.message}`);
+            throw error;
         }
-    }
+    };
 
     /**
      * Gets a secret credential from Key Vault
-     * @param {AppSettings} config 
-     * @param {DefaultAzureCredential} credential 
+     * @param {KeyVaultCredential} keyVaultCredential
+     * @param {DefaultAzureCredential} credential
      * @returns {Promise}
      */
-    async getSecretCredential(config: AppSettings, credential: DefaultAzureCredential): Promise<KeyVaultSecret> {
+    async getSecretCredential(keyVaultCredential: KeyVaultCredential, credential: DefaultAzureCredential): Promise<KeyVaultSecret> {
 
         // Initialize secretClient with credentials
-        const secretClient = new SecretClient(config.appCredentials.keyVaultCredential.keyVaultUrl, credential);
-
-        try {
-            const keyVaultSecret = await secretClient.getSecret(config.appCredentials.keyVaultCredential.credentialName);
-            return keyVaultSecret;
-        } catch (error) {
-            console.log(error);
-            return error;
-        }
+        const secretClient = new SecretClient(keyVaultCredential.keyVaultUrl, credential);
+        return secretClient.getSecret(keyVaultCredential.credentialName);
     }
-}
\ No newline at end of file
+}
@@ -3,49 +3,158 @@
  * Licensed under the MIT License.
  */
 
-import { LogLevel } from "@azure/msal-common"
+import { AsyncLocalStorage } from "async_hooks";
+import { LogLevel } from "@azure/msal-common";
+
+import { LogEntry, LoggerOptions } from "./Types";
+import { LoggerConstants, LogFormats } from "./Constants";
 
 export class Logger {
+    private static options: LoggerOptions = {};
+    private static correlationContext = new AsyncLocalStorage<string>();
+
+    /**
+     * Sets the level, format, PII policy and destination of logs
+     * from both the wrapper and MSAL
+     * @param {LoggerOptions} options
+     * @returns {void}
+     */
+    static setLoggerOptions(options: LoggerOptions = {}): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Runs a callback with a correlation ID, which is added to
+     * all logs and MSAL requests made while handling it
+     * @param {string} correlationId
+     * @param {Function} callback
+     * @returns {void}
+     */
+    static runWithCorrelationId(correlationId: string, callback: () => void): void {
+        this.correlationContext.run(correlationId, callback);
+    }
+
+    /**
+     * Gets the correlation ID of the request being handled, if any
+     * @returns {string}
+     */
+    static getCorrelationId(): string | undefined {
+        return this.correlationContext.getStore();
+    }
 
     /**
      * Log an error
      * @param {string} log
+     * @param {boolean} containsPii
      * @returns {void}
      */
-    static logError(log: string): void {
-        console.error(this.logMessage(log));
+    static logError(log: string, containsPii: boolean = false): void {
+        this.log(LogLevel.Error, log, containsPii, LoggerConstants.WRAPPER_SOURCE);
     }
 
     /**
      * Log a warning
      * @param {string} log
+     * @param {boolean} containsPii
      * @returns {void}
      */
-    static logWarning(log: string): void {
-        console.warn(this.logMessage(log));
+    static logWarning(log: string, containsPii: boolean = false): void {
+        this.log(LogLevel.Warning, log, containsPii, LoggerConstants.WRAPPER_SOURCE);
     }
 
     /**
      * Log anything
      * @param {string} log
+     * @param {boolean} containsPii
      * @returns {void}
      */
-    static logInfo(log: string): void {
-        console.info(this.logMessage(log));
+    static logInfo(log: string, containsPii: boolean = false): void {
+        this.log(LogLevel.Info, log, containsPii, LoggerConstants.WRAPPER_SOURCE);
     }
 
     /**
-     * Log message with required options.
-     * @param {string} logMessage 
-     * @returns {string}
+     * Log details useful for troubleshooting
+     * @param {string} log
+     * @param {boolean} containsPii
+     * @returns {void}
      */
-    private static logMessage(logMessage: string): string {
-        const timestamp = new Date().toUTCString();
+    static logVerbose(log: string, containsPii: boolean = false): void {
+        this.log(LogLevel.Verbose, log, containsPii, LoggerConstants.WRAPPER_SOURCE);
+    }
+
+    /**
+     * Log a message from MSAL. Used as MSAL's logger callback
+     * @param {LogLevel} level
+     * @param {string} message
+     * @param {boolean} containsPii
+     * @returns {void}
+     */
+    static logMsalMessage(level: LogLevel, message: string, containsPii: boolean): void {
+        this.log(level, message, containsPii, LoggerConstants.MSAL_SOURCE);
+    }
+
+    /**
+     * Filters a log by level and PII policy, and sends it to
+     * the configured logger callback or to the console
+     * @param {LogLevel} level
+     * @param {string} message
+     * @param {boolean} containsPii
+     * @param {string} source: wrapper or MSAL
+     * @returns {void}
+     */
+    private static log(level: LogLevel, message: string, containsPii: boolean, source: string): void {
+        const logLevel = this.options.logLevel !== undefined ? this.options.logLevel : LogLevel.Info;
 
-        let logHeader: string = `[${timestamp}]`;
+        if (level > logLevel || (containsPii && !this.options.piiLoggingEnabled)) {
+            return;
+        }
 
-        const log = `${logHeader} : @azure-samples/msal-express-wrapper@0.1.0 : ${LogLevel[LogLevel.Verbose]} - ${logMessage}`;
-        return log;
+        const entry: LogEntry = {
+            timestamp: new Date().toISOString(),
+            level: LogLevel[level],
+            source: source,
+            correlationId: this.getCorrelationId(),
+            containsPii: containsPii,
+            message: message,
+        };
+
+        if (this.options.loggerCallback) {
+            this.options.loggerCallback(entry);
+            return;
+        }
+
+        const log = this.options.format === LogFormats.JSON ?
+            JSON.stringify(entry)
+            :
+            this.logMessage(entry);
+
+        switch (level) {
+            case LogLevel.Error:
+                console.error(log);
+                return;
+            case LogLevel.Warning:
+                console.warn(log);
+                return;
+            case LogLevel.Info:
+                console.info(log);
+                return;
+            default:
+                console.debug(log);
+                return;
+        }
     }
 
-}
\ No newline at end of file
+    /**
+     * Log message with required options.
+     * @param {LogEntry} entry
+     * @returns {string}
+     */
+    private static logMessage(entry: LogEntry): string {
+        const logHeader = entry.correlationId ?
+            `[${entry.timestamp}] : [${entry.correlationId}]`
+            :
+            `[${entry.timestamp}]`;
+
+        return `${logHeader} : ${entry.source} : ${entry.level} - ${entry.message}`;
+    }
+}
@@ -0,0 +1,156 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import crypto from "crypto";
+import { StringUtils } from "@azure/msal-common";
+
+import { Logger } from "./Logger";
+
+import {
+    AppSettings,
+    State
+} from "./Types";
+
+import {
+    StateConstants,
+    ErrorMessages,
+    InfoMessages
+} from "./Constants";
+
+export class StateManager {
+    private keys: Buffer[];
+    expiresIn: number;
+
+    /**
+     * @param {AppSettings} appSettings
+     * @constructor
+     */
+    constructor(appSettings: AppSettings) {
+        const keys = appSettings.stateOptions && appSettings.stateOptions.keys ?
+            appSettings.stateOptions.keys.filter((key) => !StringUtils.isEmpty(key))
+            :
+            [];
+
+        if (keys.length > 0) {
+            this.keys = keys.map((key) => StateManager.deriveKey(key));
+        } else {
+            // state produced with an ephemeral key can only be read back by this process
+            Logger.logWarning(InfoMessages.EPHEMERAL_STATE_KEY);
+            this.keys = [crypto.randomBytes(StateConstants.KEY_LENGTH)];
+        }
+
+        this.expiresIn = appSettings.stateOptions && appSettings.stateOptions.expiresIn ?
+            appSettings.stateOptions.expiresIn
+            :
+            StateConstants.DEFAULT_EXPIRY;
+    }
+
+    /**
+     * Encrypts and signs the state parameter with the current key (AES-256-GCM).
+     * Output format: version.keyId.expiry.iv.ciphertext.tag
+     * @param {State} state: state object to protect
+     * @returns {string}
+     */
+    encodeState(state: State): string {
+        const key = this.keys[0];
+        const header = [
+            StateConstants.VERSION,
+            StateManager.getKeyId(key),
+            Math.floor(Date.now() / 1000) + this.expiresIn,
+        ].join(".");
+
+        const iv = crypto.randomBytes(StateConstants.IV_LENGTH);
+        const cipher = crypto.createCipheriv(StateConstants.ALGORITHM, key, iv, {
+            authTagLength: StateConstants.TAG_LENGTH,
+        });
+        cipher.setAAD(Buffer.from(header));
+
+        const ciphertext = Buffer.concat([
+            cipher.update(JSON.stringify(state), "utf8"),
+            cipher.final(),
+        ]);
+
+        return [
+            header,
+            StateManager.base64UrlEncode(iv),
+            StateManager.base64UrlEncode(ciphertext),
+            StateManager.base64UrlEncode(cipher.getAuthTag()),
+        ].join(".");
+    }
+
+    /**
+     * Verifies and decrypts a state parameter. Tampered, unknown-key or
+     * expired state is rejected before its payload is parsed
+     * @param {string} encodedState: state parameter received on redirect
+     * @returns {State}
+     */
+    decodeState(encodedState: string): State {
+        const segments = typeof encodedState === "string" ? encodedState.split(".") : [];
+
+        if (segments.length !== 6 || segments[0] !== StateConstants.VERSION) {
+            throw new Error(ErrorMessages.INVALID_STATE);
+        }
+
+        const [version, keyId, expiry, iv, ciphertext, tag] = segments;
+
+        // any of the configured keys is accepted for decryption, to allow rotation
+        const key = this.keys.find((k) => StateManager.getKeyId(k) === keyId);
+
+        if (!key) {
+            throw new Error(ErrorMessages.INVALID_STATE);
+        }
+
+        let plaintext: string;
+
+        try {
+            // a truncated tag would be accepted otherwise, making forgery easier
+            const decipher = crypto.createDecipheriv(StateConstants.ALGORITHM, key, StateManager.base64UrlDecode(iv), {
+                authTagLength: StateConstants.TAG_LENGTH,
+            });
+            decipher.setAAD(Buffer.from([version, keyId, expiry].join(".")));
+            decipher.setAuthTag(StateManager.base64UrlDecode(tag));
+
+            plaintext = Buffer.concat([
+                decipher.update(StateManager.base64UrlDecode(ciphertext)),
+                decipher.final(),
+            ]).toString("utf8");
+        } catch (error) {
+            throw new Error(ErrorMessages.INVALID_STATE);
+        }
+
+        // expiry is covered by the authentication tag, so it can be trusted at this point
+        if (!(Number(expiry) >= Math.floor(Date.now() / 1000))) {
+            throw new Error(ErrorMessages.STATE_EXPIRED);
+        }
+
+        return JSON.parse(plaintext);
+    }
+
+    /**
+     * Derives a 256-bit key from a configured secret
+     * @param {string} secret: key material from app settings
+     * @returns {Buffer}
+     */
+    private static deriveKey(secret: string): Buffer {
+        return crypto.createHash("sha256").update(secret, "utf8").digest();
+    }
+
+    /**
+     * Gets a short, non-secret identifier for a key
+     * @param {Buffer} key: derived key
+     * @returns {string}
+     */
+    private static getKeyId(key: Buffer): string {
+        return crypto.createHash("sha256").update(key).digest("hex").substring(0, 8);
+    }
+
+    private static base64UrlEncode(buffer: Buffer): string {
+        return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+    }
+
+    private static base64UrlDecode(str: string): Buffer {
+        return Buffer.from(str.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+    }
+}
@@ -3,34 +3,44 @@
  * Licensed under the MIT License.
  */
 
+import fs from "fs";
 import jwt from "jsonwebtoken";
 import jwksClient from "jwks-rsa";
 
 import { 
     StringUtils, 
     Constants, 
-    TokenClaims 
+    TokenClaims,
+    UrlString
 } from "@azure/msal-common";
 
 import { Configuration } from "@azure/msal-node";
 
 import { Logger } from "./Logger";
+import { UrlUtils } from "./UrlUtils";
 
 import { 
     AppSettings,
+    Policy,
     Resource, 
     IdTokenClaims, 
-    AccessTokenClaims 
+    AccessTokenClaims,
+    TokenValidationOptions,
+    TokenValidationResult
 } from "./Types";
 
 import { 
     ErrorMessages, 
-    AADAuthorityConstants 
+    AADAuthorityConstants,
+    SigningKeyConstants,
+    TokenValidationConstants
 } from "./Constants";
 
 export class TokenValidator {
     private appSettings: AppSettings;
     private msalConfig: Configuration;
+    private jwksClients: Map<string, jwksClient.JwksClient>;
+    private localKeys: jwksClient.SigningKey[];
 
     /**
      * @param {AppSettings} appSettings 
@@ -40,6 +50,12 @@ export class TokenValidator {
     constructor(appSettings: AppSettings, msalConfig: Configuration) {
         this.appSettings = appSettings;
         this.msalConfig = msalConfig;
+        this.jwksClients = new Map();
+
+        // keys preloaded from a local JWKS file are tried before the network
+        if (appSettings.signingKeyOptions && appSettings.signingKeyOptions.localKeysPath) {
+            this.localKeys = JSON.parse(fs.readFileSync(appSettings.signingKeyOptions.localKeysPath, "utf8")).keys;
+        }
     }
 
     /**
@@ -59,8 +75,7 @@ export class TokenValidator {
         try {
             decodedToken = jwt.decode(authToken, { complete: true });
         } catch (error) {
-            Logger.logError(ErrorMessages.TOKEN_NOT_DECODED);
-            console.log(error);
+            Logger.logError(`${ErrorMessages.TOKEN_NOT_DECODED}: ${error.message}`);
             return false;
         }
 
@@ -68,10 +83,9 @@ export class TokenValidator {
         let keys;
 
         try {
-            keys = await this.getSigningKeys(decodedToken.header, decodedToken.payload.tid);
+            keys = await this.getSigningKeys(decodedToken.header, this.getJwksUri(decodedToken.payload));
         } catch (error) {
-            Logger.logError(ErrorMessages.KEYS_NOT_OBTAINED);
-            console.log(error);
+            Logger.logError(`${ErrorMessages.KEYS_NOT_OBTAINED}: ${error.message}`);
             return false;
         }
 
@@ -79,87 +93,80 @@ export class TokenValidator {
         let verifiedToken: TokenClaims;
 
         try {
-            verifiedToken = jwt.verify(authToken, keys);
-
-            /**
-             * if a multiplexer was used in place of tenantId i.e. if the app
-             * is multi-tenant, the tenantId should be obtained from the user"s
-             * token"s tid claim for verification purposes
-             */
-            if (
-                this.appSettings.appCredentials.tenantId === AADAuthorityConstants.COMMON ||
-                this.appSettings.appCredentials.tenantId === AADAuthorityConstants.ORGANIZATIONS ||
-                this.appSettings.appCredentials.tenantId === AADAuthorityConstants.CONSUMERS
-            ) {
-                this.appSettings.appCredentials.tenantId = decodedToken.payload.tid;
-            }
-
+            verifiedToken = jwt.verify(authToken, keys, { clockTolerance: this.getClockSkew() });
             return verifiedToken;
         } catch (error) {
-            Logger.logError(ErrorMessages.TOKEN_NOT_VERIFIED);
-            console.log(error);
+            Logger.logError(`${ErrorMessages.TOKEN_NOT_VERIFIED}: ${error.message}`);
             return false;
         }
     };
 
     /**
-     * Verifies the access token for signature
+     * Verifies the id token for signature and claims
      * @param {string} idToken: raw Id token
+     * @param {string} nonce: nonce sent in the authorization request
      * @returns {Promise}
      */
-     async validateIdToken(idToken: string): Promise<boolean> {
+    async validateIdToken(idToken: string, nonce?: string): Promise<TokenValidationResult> {
         try {
             const verifiedToken = await this.verifyTokenSignature(idToken);
 
-            if (verifiedToken) {
-                return this.validateIdTokenClaims(verifiedToken as IdTokenClaims);
-            } else {
-                return false;
+            if (!verifiedToken) {
+                return { isValid: false, errors: [ErrorMessages.TOKEN_NOT_VERIFIED] };
             }
+
+            const result = this.validateIdTokenClaims(verifiedToken as IdTokenClaims, nonce);
+            return await this.validateTenant(result);
         } catch (error) {
-            console.log(error);
-            return false;
+            Logger.logError(`${ErrorMessages.CANNOT_VALIDATE_TOKEN}: ${error.message}`);
+            return { isValid: false, errors: [ErrorMessages.CANNOT_VALIDATE_TOKEN] };
         }
     };
 
     /**
      * Validates the id token for a set of claims
      * @param {IdTokenClaims} idTokenClaims: decoded id token claims
-     * @returns {boolean}
+     * @param {string} nonce: nonce sent in the authorization request
+     * @returns {TokenValidationResult}
      */
-    validateIdTokenClaims(idTokenClaims: IdTokenClaims): boolean {
-        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
-
+    validateIdTokenClaims(idTokenClaims: IdTokenClaims, nonce?: string): TokenValidationResult {
         /**
          * At the very least, check for issuer, audience, issue and expiry dates.
          * For more information on validating id tokens, visit:
          * https://docs.microsoft.com/azure/active-directory/develop/id-tokens#validating-an-id_token
          */
-        const checkIssuer = idTokenClaims.iss.includes(this.appSettings.appCredentials.tenantId) ? true : false;
-        const checkAudience = idTokenClaims.aud === this.msalConfig.auth.clientId ? true : false;
-        const checkTimestamp = idTokenClaims.iat <= now && idTokenClaims.exp >= now ? true : false;
+        const errors = [
+            ...this.validateCommonClaims(idTokenClaims),
+            ...(idTokenClaims.aud !== this.msalConfig.auth.clientId ? [ErrorMessages.INVALID_AUDIENCE] : []),
+        ];
+
+        // binds the token to the authorization request it was issued for
+        if (nonce && this.getValidationOptions().validateNonce !== false && idTokenClaims.nonce !== nonce) {
+            errors.push(ErrorMessages.NONCE_MISMATCH);
+        }
 
-        return checkIssuer && checkAudience && checkTimestamp;
+        return TokenValidator.getResult(idTokenClaims, errors);
     };
 
     /**
-     * Verifies the access token for signature
+     * Verifies the access token for signature and claims
      * @param {string} accessToken: raw JWT token
      * @param {string} protectedRoute: used for checking scope
      * @returns {Promise}
      */
-     async verifyAccessTokenSignature(accessToken: string, protectedRoute: string): Promise<boolean> {
+    async verifyAccessTokenSignature(accessToken: string, protectedRoute: string): Promise<TokenValidationResult> {
         try {
             const verifiedToken = await this.verifyTokenSignature(accessToken);
 
-            if (verifiedToken) {
-                return this.validateAccessTokenClaims(verifiedToken as AccessTokenClaims, protectedRoute);
-            } else {
-                return false;
+            if (!verifiedToken) {
+                return { isValid: false, errors: [ErrorMessages.TOKEN_NOT_VERIFIED] };
             }
+
+            const result = this.validateAccessTokenClaims(verifiedToken as AccessTokenClaims, protectedRoute);
+            return await this.validateTenant(result);
         } catch (error) {
-            console.log(error);
-            return false;
+            Logger.logError(`${ErrorMessages.CANNOT_VALIDATE_TOKEN}: ${error.message}`);
+            return { isValid: false, errors: [ErrorMessages.CANNOT_VALIDATE_TOKEN] };
         }
     };
 
@@ -167,49 +174,304 @@ export class TokenValidator {
      * Validates the access token for a set of claims
      * @param {TokenClaims} verifiedToken: token with a verified signature
      * @param {string} protectedRoute: route where this token is required to access
-     * @returns {boolean}
+     * @returns {TokenValidationResult}
      */
-    validateAccessTokenClaims(verifiedToken: AccessTokenClaims, protectedRoute: string): boolean {
-        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
-
+    validateAccessTokenClaims(verifiedToken: AccessTokenClaims, protectedRoute: string): TokenValidationResult {
         /**
          * At the very least, validate the token with respect to issuer, audience, scope
          * and timestamp, though implementation and extent vary. For more information, visit:
          * https://docs.microsoft.com/azure/active-directory/develop/access-tokens#validating-tokens
          */
-        const checkIssuer = verifiedToken.iss.includes(this.appSettings.appCredentials.tenantId) ? true : false;
-        const checkTimestamp = verifiedToken.iat <= now && verifiedToken.iat >= now ? true : false;
+        const errors = this.validateCommonClaims(verifiedToken);
 
-        const checkAudience = verifiedToken.aud === this.appSettings.appCredentials.clientId ||
-            verifiedToken.aud === "api://" + this.appSettings.appCredentials.clientId ? true : false;
+        if (!this.getAudiences().includes(verifiedToken.aud)) {
+            errors.push(ErrorMessages.INVALID_AUDIENCE);
+        }
 
-        const checkScopes = Object.values(this.appSettings.ownedResources).find((resource: Resource) => resource.endpoint === protectedRoute)
-            .scopes.every(scp => verifiedToken.scp.includes(scp));
+        const resource = this.getOwnedResource(protectedRoute);
 
-        return checkAudience && checkIssuer && checkTimestamp && checkScopes;
+        // routes without an owned resource are rejected, unless explicitly allowed
+        if (!resource) {
+            if (!this.getValidationOptions().allowUnlistedRoutes) {
+                errors.push(ErrorMessages.OWNED_RESOURCE_NOT_FOUND);
+            }
+        } else if (!this.validateScopes(verifiedToken, resource)) {
+            errors.push(ErrorMessages.TOKEN_HAS_NO_SCOPE);
+        }
+
+        return TokenValidator.getResult(verifiedToken, errors);
     };
 
     /**
-     * Fetches signing keys of an access token
-     * from the authority discovery endpoint
-     * @param {Object} header: token header
-     * @param {string} tid: tenant id
+     * Validates the issuer and the timestamps of a token. Timestamps are
+     * checked with the configured clock skew tolerance
+     * @param {TokenClaims} claims: token with a verified signature
+     * @returns {Array} reasons for failure, if any
+     */
+    private validateCommonClaims(claims: IdTokenClaims | AccessTokenClaims): string[] {
+        const now = Math.round(new Date().getTime() / 1000); // in UNIX format
+        const clockSkew = this.getClockSkew();
+        const errors = [];
+
+        if (!this.validateIssuer(claims)) {
+            errors.push(ErrorMessages.INVALID_ISSUER);
+        }
+
+        if (!claims.exp || claims.exp + clockSkew < now) {
+            errors.push(ErrorMessages.TOKEN_EXPIRED);
+        }
+
+        if (claims.nbf && claims.nbf - clockSkew > now) {
+            errors.push(ErrorMessages.TOKEN_NOT_YET_VALID);
+        }
+
+        if (claims.iat && claims.iat - clockSkew > now) {
+            errors.push(ErrorMessages.TOKEN_ISSUED_IN_FUTURE);
+        }
+
+        return errors;
+    };
+
+    /**
+     * Checks the issuer of a token, in v1.0 or v2.0 format. If a multiplexer was used
+     * in place of tenantId i.e. if the app is multi-tenant, the expected issuer is built
+     * from the token's own tid claim, so that each tenant is validated independently
+     * @param {TokenClaims} claims: token with a verified signature
+     * @returns {boolean}
+     */
+    private validateIssuer(claims: TokenClaims): boolean {
+        if (this.appSettings.b2cPolicies) {
+            return this.validateB2CIssuer(claims);
+        }
+
+        const tenantId = this.isMultiTenant() ? claims.tid : this.appSettings.appCredentials.tenantId;
+
+        if (StringUtils.isEmpty(tenantId)) {
+            return false;
+        }
+
+        // v1.0 tokens are issued by sts.windows.net, v2.0 tokens by the authority host
+        return [
+            `https://${Constants.DEFAULT_AUTHORITY_HOST}/${tenantId}/v2.0`,
+            `https://${TokenValidationConstants.V1_ISSUER_HOST}/${tenantId}/`,
+        ].includes(claims.iss);
+    };
+
+    /**
+     * Checks if the tenant of a token is allowed to access a multi-tenant app, against
+     * the allowed tenants list and/or the tenant approval callback, if configured
+     * @param {TokenValidationResult} result: result of validating the token claims
      * @returns {Promise}
      */
-    private async getSigningKeys(header, tid: string): Promise<string> {
-        let jwksUri;
+    private async validateTenant(result: TokenValidationResult): Promise<TokenValidationResult> {
+        const options = this.getValidationOptions();
+        const tenantId = result.claims.tid;
+
+        if (!this.isMultiTenant() || !result.isValid) {
+            return result;
+        }
+
+        if (
+            (options.allowedTenants && !options.allowedTenants.includes(tenantId)) ||
+            (options.isTenantAllowed && !(await options.isTenantAllowed(tenantId)))
+        ) {
+            Logger.logError(ErrorMessages.TENANT_NOT_ALLOWED);
+            return TokenValidator.getResult(result.claims, [ErrorMessages.TENANT_NOT_ALLOWED]);
+        }
+
+        return result;
+    };
+
+    /**
+     * Gets the accepted audiences for access tokens. Defaults to the client ID in
+     * both the GUID (v2.0 tokens) and the Application ID URI (v1.0 tokens) format
+     * @returns {Array}
+     */
+    private getAudiences(): string[] {
+        const options = this.getValidationOptions();
+
+        return options.audiences && options.audiences.length > 0 ?
+            options.audiences
+            :
+            [this.appSettings.appCredentials.clientId, "api://" + this.appSettings.appCredentials.clientId];
+    };
+
+    /**
+     * Gets the clock skew tolerance in seconds
+     * @returns {number}
+     */
+    private getClockSkew(): number {
+        const options = this.getValidationOptions();
+
+        return typeof options.clockSkew === "number" ? options.clockSkew : TokenValidationConstants.CLOCK_SKEW;
+    };
 
+    private getValidationOptions(): TokenValidationOptions {
+        return this.appSettings.tokenValidationOptions || {};
+    };
+
+    /**
+     * Builds a validation result from a list of failure reasons
+     * @param {TokenClaims} claims: validated claims
+     * @param {Array} errors: reasons for failure
+     * @returns {TokenValidationResult}
+     */
+    private static getResult(claims: TokenClaims, errors: string[]): TokenValidationResult {
+        errors.forEach((error) => Logger.logError(error));
+
+        return {
+            isValid: errors.length === 0,
+            claims: claims,
+            errors: errors,
+        };
+    };
+
+    /**
+     * Checks if the app accepts users from multiple tenants
+     * @returns {boolean}
+     */
+    private isMultiTenant(): boolean {
+        return Object.values(AADAuthorityConstants).includes(this.appSettings.appCredentials.tenantId);
+    };
+
+    /**
+     * Gets the owned resource for a route, i.e. whose endpoint path is the route
+     * @param {string} protectedRoute: route where a token is required to access
+     * @returns {Resource}
+     */
+    private getOwnedResource(protectedRoute: string): Resource | undefined {
+        return this.appSettings.ownedResources ?
+            Object.values(this.appSettings.ownedResources).find((r: Resource) => UrlUtils.getPathFromUrl(r.endpoint) === protectedRoute)
+            :
+            undefined;
+    };
+
+    /**
+     * Checks that a delegated token carries the scopes of an owned resource.
+     * App-only tokens have no scopes, and are authorized via app roles
+     * @param {AccessTokenClaims} verifiedToken: token with a verified signature
+     * @param {Resource} resource: owned resource the token is required to access
+     * @returns {boolean}
+     */
+    private validateScopes(verifiedToken: AccessTokenClaims, resource: Resource): boolean {
+        if (!verifiedToken.scp) {
+            return verifiedToken.roles !== undefined;
+        }
+
+        const scopes = verifiedToken.scp.split(" ");
+        return resource.scopes.every((scp) => scopes.includes(scp));
+    };
+
+    /**
+     * Gets the B2C policy under which a token was issued, using the tfp/acr
+     * claim or, if B2C is set to emit it, the policy segment of the issuer
+     * @param {TokenClaims} claims: decoded token claims
+     * @returns {Policy}
+     */
+    getB2CPolicy(claims: TokenClaims): Policy {
+        const policyFromClaims: string = claims["tfp"] || claims["acr"];
+
+        const issuerSegments = claims.iss ?
+            new UrlString(claims.iss).getUrlComponents().PathSegments.map((segment) => segment.toLowerCase())
+            :
+            [];
+
+        const policy = Object.values(this.appSettings.b2cPolicies).find((p: Policy) => {
+            const policyName = TokenValidator.getPolicyNameFromAuthority(p.authority);
+
+            return policyFromClaims ?
+                policyName === policyFromClaims.toLowerCase()
+                :
+                issuerSegments.includes(policyName);
+        });
+
+        if (!policy) {
+            throw new Error(`${ErrorMessages.POLICY_NOT_FOUND}: ${policyFromClaims}`);
+        }
+
+        return policy;
+    };
+
+    /**
+     * Checks if the issuer of a B2C token belongs to the domain of its policy, which
+     * may be a b2clogin.com or a custom domain, and to the tenant of the app
+     * @param {TokenClaims} claims: decoded token claims
+     * @returns {boolean}
+     */
+    private validateB2CIssuer(claims: TokenClaims): boolean {
+        try {
+            const policy = this.getB2CPolicy(claims);
+
+            return UrlString.getDomainFromUrl(claims.iss).toLowerCase() === UrlString.getDomainFromUrl(policy.authority).toLowerCase()
+                && claims.iss.includes(this.appSettings.appCredentials.tenantId);
+        } catch (error) {
+            Logger.logError(error.message);
+            return false;
+        }
+    };
+
+    /**
+     * Gets the JWKS URI for a token. In B2C scenarios, keys belong to the policy under
+     * which the token was issued. Otherwise, keys are fetched from the configured authority
+     * (e.g. "common" for multi-tenant apps) rather than from the token's unverified tid claim,
+     * so that forged tokens cannot create new key set clients
+     * @param {TokenClaims} claims: decoded token claims
+     * @returns {string}
+     */
+    private getJwksUri(claims: TokenClaims): string {
         // Check if a B2C application i.e. app has b2cPolicies
         if (this.appSettings.b2cPolicies) {
-            jwksUri = `${this.msalConfig.auth.authority}/discovery/v2.0/keys`;
-        } else {
-            jwksUri = `https://${Constants.DEFAULT_AUTHORITY_HOST}/${tid}/discovery/v2.0/keys`;
+            return `${this.getB2CPolicy(claims).authority}/discovery/v2.0/keys`;
+        }
+
+        return `${this.msalConfig.auth.authority}/discovery/v2.0/keys`;
+    };
+
+    /**
+     * Fetches signing keys of an access token from the authority discovery
+     * endpoint. There is one client per configured authority or B2C policy
+     * @param {Object} header: token header
+     * @param {string} jwksUri: URI of the key set
+     * @returns {Promise}
+     */
+    private async getSigningKeys(header, jwksUri: string): Promise<string> {
+        if (!this.jwksClients.has(jwksUri)) {
+            this.jwksClients.set(jwksUri, this.createJwksClient(jwksUri));
         }
 
-        const client = jwksClient({
+        return (await this.jwksClients.get(jwksUri).getSigningKeyAsync(header.kid)).getPublicKey();
+    };
+
+    /**
+     * Creates a long-lived client for a key set. Keys are cached by kid, so an
+     * unknown kid (e.g. after key rotation) triggers a refetch. Refetches are
+     * rate limited, as anyone can send a token with a forged kid
+     * @param {string} jwksUri: URI of the key set
+     * @returns {JwksClient}
+     */
+    private createJwksClient(jwksUri: string): jwksClient.JwksClient {
+        const options = this.appSettings.signingKeyOptions || {};
+
+        return jwksClient({
             jwksUri: jwksUri,
+            cache: true,
+            cacheMaxAge: options.cacheMaxAge || SigningKeyConstants.CACHE_MAX_AGE,
+            cacheMaxEntries: options.cacheMaxEntries || SigningKeyConstants.CACHE_MAX_ENTRIES,
+            rateLimit: true,
+            jwksRequestsPerMinute: options.requestsPerMinute || SigningKeyConstants.REQUESTS_PER_MINUTE,
+            ...(this.localKeys) && {
+                getKeysInterceptor: (cb) => cb(null, this.localKeys),
+            },
         });
+    };
 
-        return (await client.getSigningKeyAsync(header.kid)).getPublicKey();
+    /**
+     * Gets the policy name i.e. the last path segment of a B2C authority
+     * @param {string} authority: B2C authority URL
+     * @returns {string}
+     */
+    private static getPolicyNameFromAuthority(authority: string): string {
+        const pathSegments = new UrlString(authority).getUrlComponents().PathSegments;
+        return pathSegments[pathSegments.length - 1].toLowerCase();
     };
 }
@@ -3,49 +3,86 @@
  * Licensed under the MIT License.
  */
 
-import { TokenClaims } from "@azure/msal-common";
+import { LogLevel, TokenClaims } from "@azure/msal-common";
 
-import {
-    AccountInfo,
-    AuthorizationUrlRequest,
-    AuthorizationCodeRequest,
-} from "@azure/msal-node";
+import { AccountInfo } from "@azure/msal-node";
 
-// extending express Request object
+import { Request } from "express";
+
+// extending express-session SessionData object
 declare module "express-session" {
     interface SessionData {
-        authCodeRequest: AuthorizationUrlRequest;
-        tokenRequest: AuthorizationCodeRequest;
         account: AccountInfo;
-        nonce: string;
         isAuthenticated?: boolean;
-        remoteResources?: {
-            [resource: string]: Resource;
+        authFlows?: {
+            [flowId: string]: AuthFlow;
         };
-        ownedResources?: {
-            [resource: string]: Resource;
-        },
     }
 }
 
+// extending express Request object
+declare global {
+    namespace Express {
+        interface Request {
+            authContext?: AuthContext;
+            getAccessToken?: (resourceName: string) => Promise<string>;
+            callDownstreamApi?: <T = any>(resourceName: string, options?: DownstreamApiOptions) => Promise<DownstreamApiResponse<T>>;
+        }
+    }
+}
+
+/**
+ * Request-scoped authentication data, attached to req.authContext
+ */
+export type AuthContext = {
+    accessToken?: string;
+    accessTokenClaims?: AccessTokenClaims;
+    correlationId?: string;
+    tokens?: {
+        [resource: string]: string;
+    };
+    responses?: {
+        [resource: string]: DownstreamApiResponse;
+    };
+};
+
 export type AuthCodeParams = {
     authority: string;
     scopes: string[];
-    state: string;
+    state: State;
     redirect: string;
     prompt?: string;
     account?: AccountInfo;
+    extraScopesToConsent?: string[];
 };
 
 export type State = {
     nonce: string;
+    flowId?: string;
     stage: string;
+    path: string;
+    authority: string;
+    scopes: string[];
+    policy?: string;
+    claims?: string;
+};
+
+/**
+ * An authorization code flow pending in a session, keyed by the flow ID in its
+ * state. The flow is removed when the user returns, so that state is single-use.
+ * The PKCE code verifier is kept here, as state is sent along with the code
+ */
+export type AuthFlow = {
+    codeVerifier: string;
+    expiresOn: number;
 };
 
 export type InitializationOptions = {
     saveCacheToDisk?: boolean;
     useSession?: boolean;
     customState?: Object;
+    loggerOptions?: LoggerOptions;
+    handleRedirectOptions?: HandleRedirectOptions;
 };
 
 export type TokenRequestOptions = {
@@ -54,23 +91,156 @@ export type TokenRequestOptions = {
     skipCache?: boolean;
 };
 
+/**
+ * Names of resources in remoteResources to acquire tokens for
+ */
+export type TokensRequestOptions = {
+    resources: string[];
+};
+
+/**
+ * A call to a web API in remoteResources. path is appended to the
+ * resource's endpoint, and query parameters are added to the URL
+ */
+export type DownstreamApiOptions = {
+    method?: string;
+    path?: string;
+    query?: {
+        [param: string]: string;
+    };
+    body?: any;
+    headers?: {
+        [header: string]: string;
+    };
+};
+
+export type DownstreamApiResponse<T = any> = {
+    status: number;
+    headers: {
+        [header: string]: string;
+    };
+    data: T;
+};
+
 export type SignInOptions = {
     successRedirect: string;
     extraScopesToConsent?: string[];
     failureRedirect?: string;
+    policy?: string;
 }
 
 export type SignOutOptions = {
     successRedirect: string;
     failureRedirect?: string;
+    policy?: string;
 }
 
+export type ConsentRequestOptions = {
+    resource: Resource;
+    successRedirect: string;
+};
+
+/**
+ * A downstream web API's claims challenge, i.e. the value
+ * of the WWW-Authenticate header of its 401 response
+ */
+export type ClaimsChallengeOptions = {
+    resource: Resource;
+    wwwAuthenticate: string;
+};
+
+/**
+ * Hooks run in order after the ID token is validated, and before the session
+ * is marked authenticated. A hook can add data to req.session, or reject the
+ * sign-in by returning a redirect, in which case the remaining hooks are skipped
+ */
 export type HandleRedirectOptions = {
-    // TODO: add options
+    signInHooks?: SignInHook[];
+};
+
+export type SignInHook = (req: Request, context: SignInHookContext) => Promise<SignInHookResult | void>;
+
+export type SignInHookContext = {
+    account: AccountInfo;
+    claims: IdTokenClaims;
+    policy?: string;
+};
+
+export type SignInHookResult = {
+    redirect?: string;
 };
 
 export type GuardOptions = {
-    accessRule: AccessRule
+    accessRule?: AccessRule;
+    responseType?: string;
+    failClosed?: boolean;
+};
+
+/**
+ * Problem details body sent when a guard rejects an API request (RFC 7807)
+ */
+export type ProblemDetails = {
+    type: string;
+    title: string;
+    status: number;
+    detail: string;
+};
+
+// ======= EVENTS ========
+
+/**
+ * Context common to all events: the request being handled and its correlation ID
+ */
+export type AuthEvent = {
+    req: Request;
+    correlationId?: string;
+};
+
+export type SignInSucceededEvent = AuthEvent & {
+    account: AccountInfo;
+    claims: IdTokenClaims;
+    policy?: string;
+};
+
+export type SignInFailedEvent = AuthEvent & {
+    reason: string;
+    errors?: string[];
+    claims?: IdTokenClaims;
+    policy?: string;
+};
+
+export type TokenAcquiredEvent = AuthEvent & {
+    resource?: string;
+    scopes: string[];
+    account?: AccountInfo;
+};
+
+export type InteractionRequiredEvent = AuthEvent & {
+    resource?: string;
+    scopes: string[];
+    claims?: string;
+};
+
+export type AccessDeniedEvent = AuthEvent & {
+    status: number;
+    reason: string;
+    claims?: IdTokenClaims | AccessTokenClaims;
+};
+
+export type SignedOutEvent = AuthEvent & {
+    account?: AccountInfo;
+};
+
+/**
+ * Events emitted by AuthProvider (see AuthEventTypes) and their payloads
+ */
+export type AuthEventMap = {
+    signInSucceeded: SignInSucceededEvent;
+    signInFailed: SignInFailedEvent;
+    tokenAcquired: TokenAcquiredEvent;
+    interactionRequired: InteractionRequiredEvent;
+    accessDenied: AccessDeniedEvent;
+    signedOut: SignedOutEvent;
 };
 
 export type ValidationOptions = {
@@ -95,7 +265,62 @@ export type AppSettings = {
     },
     accessMatrix?: {
         [accessRule: string]: AccessRule
-    }
+    },
+    clientCapabilities?: string[];
+    credentialOptions?: CredentialOptions;
+    fetchOptions?: FetchOptions;
+    groupOverageOptions?: GroupOverageOptions;
+    loggerOptions?: LoggerOptions;
+    stateOptions?: StateOptions;
+    signingKeyOptions?: SigningKeyOptions;
+    tokenValidationOptions?: TokenValidationOptions;
+};
+
+/**
+ * OpenID Connect metadata of an authority, as far as used by the wrapper
+ */
+export type OpenIdConfiguration = {
+    issuer: string;
+    end_session_endpoint?: string;
+    [property: string]: any;
+};
+
+/**
+ * Describes the expected shape of a configuration value. properties lists the
+ * known keys of an object, while values describes each entry of a map such as
+ * remoteResources. missingMessage and invalidMessage override default messages
+ */
+export type ConfigurationSchema = {
+    type: "string" | "number" | "boolean" | "object" | "array" | "function";
+    required?: boolean;
+    format?: string;
+    enum?: Array<string | number>;
+    properties?: {
+        [key: string]: ConfigurationSchema;
+    };
+    values?: ConfigurationSchema;
+    items?: ConfigurationSchema;
+    missingMessage?: string;
+    invalidMessage?: string;
+};
+
+/**
+ * A configuration problem, with the path of the offending value e.g. remoteResources.graphAPI.scopes[0]
+ */
+export type ConfigurationIssue = {
+    path: string;
+    message: string;
+};
+
+/**
+ * Options for loading app settings. Environment variables starting with envPrefix
+ * override settings, with path segments separated by a double underscore
+ */
+export type ConfigurationLoaderOptions = {
+    env?: {
+        [variable: string]: string;
+    };
+    envPrefix?: string;
 };
 
 export type AppCredentials = {
@@ -104,6 +329,9 @@ export type AppCredentials = {
     tenantId: string;
     clientSecret?: string;
     clientCertificate?: ClientCertificate;
+    clientCertificateFile?: CertificateFile;
+    clientAssertion?: string;
+    clientAssertionSource?: ClientAssertionSource;
     keyVaultCredential?: KeyVaultCredential;
 };
 
@@ -113,6 +341,67 @@ export type ClientCertificate = {
     x5c?: string
 };
 
+/**
+ * A PEM or PFX (PKCS#12) file holding the private key and certificate chain.
+ * The password decrypts a PFX file or an encrypted private key
+ */
+export type CertificateFile = {
+    path: string;
+    password?: string;
+};
+
+/**
+ * Where to get a client assertion, e.g. a federated token issued to a Kubernetes workload.
+ * getAssertion takes precedence over tokenFilePath, which defaults to AZURE_FEDERATED_TOKEN_FILE
+ */
+export type ClientAssertionSource = {
+    tokenFilePath?: string;
+    getAssertion?: () => Promise<string>;
+};
+
+/**
+ * A client secret, certificate or assertion, as returned by a credential provider
+ */
+export type ClientCredential = {
+    clientSecret?: string;
+    clientCertificate?: ClientCertificate;
+    clientAssertion?: string;
+};
+
+/**
+ * Supplies the client credential, e.g. from Key Vault, environment variables or
+ * local files. getCredential is called again each time the credential is refreshed
+ */
+export type CredentialProvider = {
+    getCredential: () => Promise<ClientCredential>;
+};
+
+/**
+ * Options for refreshing the client credential. The provider is called every
+ * refreshInterval seconds (0 to disable), and after MSAL reports invalid_client.
+ * Key Vault credentials use a Key Vault provider by default
+ */
+export type CredentialOptions = {
+    provider?: CredentialProvider;
+    refreshInterval?: number;
+};
+
+export type EnvironmentCredentialOptions = {
+    clientSecretVariable?: string;
+    thumbprintVariable?: string;
+    privateKeyVariable?: string;
+    env?: {
+        [variable: string]: string;
+    };
+};
+
+export type FileCredentialOptions = {
+    clientSecretPath?: string;
+    privateKeyPath?: string;
+    thumbprint?: string;
+    certificateFile?: CertificateFile;
+};
+
 export type KeyVaultCredential = {
     credentialType: string;
     credentialName: string;
@@ -126,6 +415,99 @@ export type AuthRoutes = {
     frontChannelLogout?: string;
 };
 
+/**
+ * Options for calling web APIs. Throttled requests are retried up to maxRetries
+ * times, with exponential backoff from retryDelay unless Retry-After is given.
+ * Delays and timeout are in milliseconds, and paged results are capped at
+ * maxPages pages and maxItems items
+ */
+export type FetchOptions = {
+    maxRetries?: number;
+    retryDelay?: number;
+    maxRetryDelay?: number;
+    timeout?: number;
+    maxPages?: number;
+    maxItems?: number;
+};
+
+/**
+ * Options for resolving groups when a groups overage occurs. membership is one
+ * of GroupMembershipTypes, filterGroups keeps only groups referenced in
+ * accessMatrix, and resolved groups are cached per user for cacheTtl seconds
+ */
+export type GroupOverageOptions = {
+    membership?: string;
+    filterGroups?: boolean;
+    cacheTtl?: number;
+};
+
+/**
+ * Options for logs from both the wrapper and MSAL. Logs above logLevel and logs
+ * containing PII (unless piiLoggingEnabled) are dropped. format is one of
+ * LogFormats, and loggerCallback replaces the console as destination
+ */
+export type LoggerOptions = {
+    logLevel?: LogLevel;
+    piiLoggingEnabled?: boolean;
+    format?: string;
+    loggerCallback?: (entry: LogEntry) => void;
+};
+
+export type LogEntry = {
+    timestamp: string;
+    level: string;
+    source: string;
+    correlationId?: string;
+    containsPii: boolean;
+    message: string;
+};
+
+/**
+ * Keys used to encrypt and sign the state parameter. The first key
+ * is used for encryption, while all keys are accepted for decryption
+ * so that keys can be rotated without breaking in-flight redirects.
+ * expiresIn is the lifetime of a state parameter in seconds.
+ */
+export type StateOptions = {
+    keys: string[];
+    expiresIn?: number;
+};
+
+/**
+ * Options for caching the keys used to verify token signatures.
+ * cacheMaxAge is in milliseconds, requestsPerMinute limits refetches
+ * per key set, and localKeysPath points to a JWKS file with preloaded keys
+ */
+export type SigningKeyOptions = {
+    cacheMaxAge?: number;
+    cacheMaxEntries?: number;
+    requestsPerMinute?: number;
+    localKeysPath?: string;
+};
+
+/**
+ * Options for validating tokens. In multi-tenant apps, tokens can be
+ * restricted to a list of tenant IDs and/or to tenants approved by a callback.
+ * clockSkew is in seconds, and audiences are accepted for access tokens
+ */
+export type TokenValidationOptions = {
+    allowedTenants?: string[];
+    isTenantAllowed?: (tenantId: string) => boolean | Promise<boolean>;
+    clockSkew?: number;
+    audiences?: string[];
+    validateNonce?: boolean;
+    allowUnlistedRoutes?: boolean;
+};
+
+/**
+ * Result of validating a token, with the reason for each failed check
+ */
+export type TokenValidationResult = {
+    isValid: boolean;
+    claims?: TokenClaims;
+    errors: string[];
+};
+
 export type Policy = {
     authority: string;
 };
@@ -141,6 +523,7 @@ export type AccessRule = {
     methods: string[];
     roles?: string[];
     groups?: string[];
+    scopes?: string[];
 };
 
 // ======= USER ========
@@ -164,6 +547,7 @@ export type UserInfo = {
  */
 export type IdTokenClaims = TokenClaims & {
     aud?: string,
+    nbf?: number,
     roles?: string[],
     groups?: string[],
     _claim_names?: string[],
@@ -176,12 +560,14 @@ export type IdTokenClaims = TokenClaims & {
  * Type which describes Access Token claims known by MSAL.
  */
 export type AccessTokenClaims = TokenClaims & {
-    scp?: string[],
+    scp?: string,
     aud?: string,
+    nbf?: number,
     roles?: string[],
     groups?: string[],
     _claim_names?: string[],
     _claim_sources?: string[],
     xms_cc?: string,
     acrs?: string[],
+    idtyp?: string,
 };
\ No newline at end of file
@@ -35,4 +35,45 @@ export class UrlUtils {
         const urlComponents: IUri = new UrlString(url).getUrlComponents();
         return `/${urlComponents.PathSegments.join("/")}`;
     };
-}
+
+    /**
+     * Checks if a path matches an Express-style route pattern. Supports named
+     * params (:id), optional params (:id?) and wildcards (* for a whole segment
+     * and any segments after it, or within a segment e.g. *.png)
+     * @param {string} pattern: route pattern e.g. /users/:id/*
+     * @param {string} path: request path
+     * @returns {boolean}
+     */
+    static matchPath = (pattern: string, path: string): boolean => {
+        const source = pattern.split("/").filter((segment) => segment.length > 0).map((segment) => {
+            if (segment === "*") {
+                return "(?:/.*)?";
+            }
+
+            if (segment.startsWith(":")) {
+                return segment.endsWith("?") ? "(?:/[^/]+)?" : "/[^/]+";
+            }
+
+            return "/" + segment.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*");
+        }).join("");
+
+        return new RegExp(`^${source}/?$`, "i").test(path);
+    };
+
+    /**
+     * Gets the specificity of a route pattern, used for picking the best match
+     * among several patterns. Static segments rank above params, and params
+     * rank above wildcards. Compare the results lexicographically
+     * @param {string} pattern: route pattern e.g. /users/:id/*
+     * @returns {Array}
+     */
+    static getPathSpecificity = (pattern: string): number[] => {
+        const segments = pattern.split("/").filter((segment) => segment.length > 0);
+
+        const wildcards = segments.filter((segment) => segment.includes("*")).length;
+        const params = segments.filter((segment) => segment.startsWith(":")).length;
+        const statics = segments.length - wildcards - params;
+
+        return [statics, params, -wildcards, pattern.length];
+    };
+}
\ No newline at end of file
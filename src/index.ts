@@ -4,10 +4,17 @@
  */
 
 export { AuthProvider } from "./AuthProvider";
-export { ConfigurationUtils } from "./ConfigurationUtils";
+export { ConfigurationUtils, ConfigurationError } from "./ConfigurationUtils";
 export { TokenValidator } from "./TokenValidator";
-export { FetchManager } from "./FetchManager";
+export { FetchManager, DownstreamApiError } from "./FetchManager";
 export { KeyVaultManager } from "./KeyVaultManager";
+export { CertificateUtils } from "./CertificateUtils";
+export {
+    KeyVaultCredentialProvider,
+    EnvironmentCredentialProvider,
+    FileCredentialProvider,
+    ClientAssertionCredentialProvider
+} from "./CredentialProviders";
 export { UrlUtils } from "./UrlUtils";
 export { Logger } from "./Logger";
 export * from "./Types";
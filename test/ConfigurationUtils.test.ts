@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+  ConfigurationUtils,
+  ConfigurationError,
+} from '../src/ConfigurationUtils';
+import { ConfigurationErrorMessages } from '../src/Constants';
+import { AppSettings } from '../src/Types';
+import { TEST_CONSTANTS } from './TestConstants';
+
+const getIssues = (config: any) => {
+  try {
+    ConfigurationUtils.validateAppSettings(config as AppSettings);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigurationError);
+    return error.issues;
+  }
+  return [];
+};
+
+test('reports every configuration error with its path', () => {
+  const issues = getIssues({
+    appCredentials: {
+      clientId: 'not-a-guid',
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+    },
+    remoteResources: {
+      graphAPI: {
+        endpoint: 'graph.microsoft.com/v1.0/me',
+        scopes: ['user.read mail.read'],
+      },
+    },
+    accessMatrix: {
+      todolist: {
+        path: 'todolist',
+        methods: ['GET', 'FETCH', '*'],
+      },
+    },
+  });
+
+  expect(issues).toEqual([
+    {
+      path: 'appCredentials.clientId',
+      message: ConfigurationErrorMessages.INVALID_CLIENT_ID,
+    },
+    { path: 'authRoutes', message: ConfigurationErrorMessages.IS_REQUIRED },
+    {
+      path: 'remoteResources.graphAPI.endpoint',
+      message: ConfigurationErrorMessages.INVALID_URL,
+    },
+    {
+      path: 'remoteResources.graphAPI.scopes[0]',
+      message: ConfigurationErrorMessages.INVALID_SCOPE,
+    },
+    {
+      path: 'accessMatrix.todolist.path',
+      message: ConfigurationErrorMessages.INVALID_ROUTE,
+    },
+    {
+      path: 'accessMatrix.todolist.methods[1]',
+      message: expect.stringContaining(
+        ConfigurationErrorMessages.INVALID_VALUE
+      ),
+    },
+    {
+      path: 'accessMatrix.todolist.methods[2]',
+      message: expect.stringContaining(
+        ConfigurationErrorMessages.INVALID_VALUE
+      ),
+    },
+    {
+      path: 'appCredentials',
+      message: ConfigurationErrorMessages.NO_CLIENT_CREDENTIAL,
+    },
+  ]);
+});
+
+test('accepts routes as owned resource endpoints', () => {
+  const issues = getIssues({
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    authRoutes: {
+      redirect: '/redirect',
+      error: '/error',
+      unauthorized: '/unauthorized',
+    },
+    ownedResources: {
+      todoListAPI: {
+        endpoint: '/api/todolist',
+        scopes: ['Todolist.Read'],
+      },
+    },
+  });
+
+  expect(issues).toEqual([]);
+});
+
+test('loads settings from a file with environment overrides', () => {
+  const filePath = path.join(os.tmpdir(), `appSettings-${Date.now()}.json`);
+
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify({
+      appCredentials: {
+        clientId: TEST_CONSTANTS.CLIENT_ID,
+        tenantId: TEST_CONSTANTS.TENANT_ID,
+      },
+      authRoutes: {
+        redirect: '/redirect',
+        error: '/error',
+        unauthorized: '/unauthorized',
+      },
+    })
+  );
+
+  try {
+    const appSettings = ConfigurationUtils.loadAppSettings(filePath, {
+      env: {
+        MSAL_EXPRESS__APPCREDENTIALS__CLIENTSECRET: '12345',
+        MSAL_EXPRESS__REMOTERESOURCES__graphAPI__ENDPOINT:
+          'https://graph.microsoft.com/v1.0/me',
+        MSAL_EXPRESS__REMOTERESOURCES__graphAPI__SCOPES: '["user.read"]',
+        MSAL_EXPRESS__FETCHOPTIONS__MAXRETRIES: '5',
+        OTHER_SETTING: 'ignored',
+      },
+    });
+
+    expect(appSettings.appCredentials.clientSecret).toBe('12345');
+    expect(appSettings.remoteResources.graphAPI).toEqual({
+      endpoint: 'https://graph.microsoft.com/v1.0/me',
+      scopes: ['user.read'],
+    });
+    expect(appSettings.fetchOptions.maxRetries).toBe(5);
+  } finally {
+    fs.unlinkSync(filePath);
+  }
+});
@@ -0,0 +1,207 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+
+import { AuthProvider } from '../src/AuthProvider';
+import {
+  EnvironmentCredentialProvider,
+  FileCredentialProvider,
+} from '../src/CredentialProviders';
+import { ConfigurationUtils } from '../src/ConfigurationUtils';
+import { ErrorMessages } from '../src/Constants';
+import { AppSettings, ClientCredential } from '../src/Types';
+import { TEST_CONSTANTS } from './TestConstants';
+
+const getAppSettings = (
+  getCredential: () => Promise<ClientCredential>
+): AppSettings => ({
+  appCredentials: {
+    clientId: TEST_CONSTANTS.CLIENT_ID,
+    tenantId: TEST_CONSTANTS.TENANT_ID,
+  },
+  authRoutes: {
+    redirect: TEST_CONSTANTS.APP_ROUTE,
+    error: TEST_CONSTANTS.APP_ROUTE,
+    unauthorized: TEST_CONSTANTS.APP_ROUTE,
+  },
+  credentialOptions: {
+    provider: { getCredential },
+    refreshInterval: 0,
+  },
+});
+
+test('reads credentials from environment variables and files', async () => {
+  const env = new EnvironmentCredentialProvider({
+    env: { AZURE_CLIENT_SECRET: TEST_CONSTANTS.CLIENT_SECRET },
+  });
+
+  expect(await env.getCredential()).toEqual({
+    clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+  });
+
+  await expect(
+    new EnvironmentCredentialProvider({ env: {} }).getCredential()
+  ).rejects.toThrow(ErrorMessages.CREDENTIAL_NOT_FOUND);
+
+  const filePath = path.join(os.tmpdir(), `clientSecret-${Date.now()}`);
+  fs.writeFileSync(filePath, `${TEST_CONSTANTS.CLIENT_SECRET}\n`);
+
+  try {
+    const file = new FileCredentialProvider({ clientSecretPath: filePath });
+
+    expect(await file.getCredential()).toEqual({
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    });
+  } finally {
+    fs.unlinkSync(filePath);
+  }
+});
+
+test('rebuilds the MSAL client when the credential is rotated', async () => {
+  let clientSecret = TEST_CONSTANTS.CLIENT_SECRET;
+  const getCredential = jest.fn(async () => ({ clientSecret }));
+
+  const authProvider = await AuthProvider.buildAsync(
+    getAppSettings(getCredential)
+  );
+  const msalClient = authProvider.msalClient;
+
+  // unchanged credentials keep the current client
+  await authProvider.refreshCredential();
+  expect(authProvider.msalClient).toBe(msalClient);
+
+  clientSecret = 'ROTATED_CLIENT_SECRET';
+  await Promise.all([
+    authProvider.refreshCredential(),
+    authProvider.refreshCredential(),
+  ]);
+
+  expect(getCredential).toHaveBeenCalledTimes(3);
+  expect(authProvider.msalClient).not.toBe(msalClient);
+  expect(authProvider.appSettings.appCredentials.clientSecret).toBe(
+    'ROTATED_CLIENT_SECRET'
+  );
+});
+
+test('rejects when the credential cannot be obtained', async () => {
+  await expect(
+    AuthProvider.buildAsync(
+      getAppSettings(async () => {
+        throw new Error('Key Vault unavailable');
+      })
+    )
+  ).rejects.toThrow('Key Vault unavailable');
+});
+
+test('reads a client assertion from a token file and renews it before expiry', async () => {
+  const tokenFilePath = path.join(os.tmpdir(), `token-${Date.now()}`);
+
+  // self-signed tokens, expiring within and outside the refresh offset
+  const expiringAssertion = jwt.sign({ sub: 'workload' }, 'secret', {
+    expiresIn: 60,
+  });
+  const renewedAssertion = jwt.sign({ sub: 'workload' }, 'secret', {
+    expiresIn: 3600,
+  });
+
+  fs.writeFileSync(tokenFilePath, expiringAssertion);
+
+  try {
+    const authProvider = await AuthProvider.buildAsync({
+      ...getAppSettings(undefined),
+      appCredentials: {
+        clientId: TEST_CONSTANTS.CLIENT_ID,
+        tenantId: TEST_CONSTANTS.TENANT_ID,
+        clientAssertionSource: { tokenFilePath },
+      },
+      credentialOptions: { refreshInterval: 0 },
+    });
+
+    expect(
+      ConfigurationUtils.getMsalConfiguration(authProvider.appSettings).auth
+        .clientAssertion
+    ).toBe(expiringAssertion);
+
+    fs.writeFileSync(tokenFilePath, renewedAssertion);
+
+    const msalClient = await authProvider['callMsalClient'](
+      async client => client
+    );
+
+    expect(msalClient).toBe(authProvider.msalClient);
+    expect(authProvider.appSettings.appCredentials.clientAssertion).toBe(
+      renewedAssertion
+    );
+  } finally {
+    fs.unlinkSync(tokenFilePath);
+  }
+});
+
+test('stops refreshing the credential when disposed', async () => {
+  const getCredential = jest.fn(async () => ({
+    clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+  }));
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const authProvider = await AuthProvider.buildAsync({
+    ...getAppSettings(getCredential),
+    credentialOptions: {
+      provider: { getCredential },
+      refreshInterval: 0.05,
+    },
+  });
+
+  await wait(120);
+  expect(getCredential.mock.calls.length).toBeGreaterThan(1);
+
+  authProvider.dispose();
+  const callCount = getCredential.mock.calls.length;
+
+  await wait(120);
+  expect(getCredential).toHaveBeenCalledTimes(callCount);
+});
+
+test('reads the token file in the constructor, and requires buildAsync for callbacks', () => {
+  const tokenFilePath = path.join(os.tmpdir(), `token-${Date.now()}`);
+  fs.writeFileSync(tokenFilePath, `${TEST_CONSTANTS.CLIENT_ASSERTION}\n`);
+
+  const getAssertionAppSettings = (
+    clientAssertionSource: any
+  ): AppSettings => ({
+    ...getAppSettings(undefined),
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientAssertionSource,
+    },
+    credentialOptions: { refreshInterval: 0 },
+  });
+
+  try {
+    const authProvider = new AuthProvider(
+      getAssertionAppSettings({ tokenFilePath })
+    );
+
+    expect(authProvider.appSettings.appCredentials.clientAssertion).toBe(
+      TEST_CONSTANTS.CLIENT_ASSERTION
+    );
+  } finally {
+    fs.unlinkSync(tokenFilePath);
+  }
+
+  expect(
+    () =>
+      new AuthProvider(
+        getAssertionAppSettings({
+          getAssertion: async () => TEST_CONSTANTS.CLIENT_ASSERTION,
+        })
+      )
+  ).toThrow(ErrorMessages.BUILD_ASYNC_REQUIRED);
+});
@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import { FetchManager, DownstreamApiError } from '../src/FetchManager';
+import { ErrorMessages } from '../src/Constants';
+
+let server: http.Server;
+let baseUrl: string;
+let throttledRequests = 0;
+
+const claims =
+  '{"access_token":{"nbf":{"essential":true,"value":"1604106651"}}}';
+
+beforeAll(done => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      if (req.url.startsWith('/revoked')) {
+        res.writeHead(401, {
+          'WWW-Authenticate': `Bearer realm="", error="insufficient_claims", claims="${Buffer.from(
+            claims
+          ).toString('base64')}"`,
+        });
+        return res.end();
+      }
+
+      if (req.url.startsWith('/throttled') && ++throttledRequests <= 2) {
+        res.writeHead(429, { 'Retry-After': '0' });
+        return res.end();
+      }
+
+      if (req.url.startsWith('/unavailable')) {
+        res.writeHead(503);
+        return res.end();
+      }
+
+      if (req.url.startsWith('/slow')) {
+        setTimeout(() => res.end(), 500);
+        return;
+      }
+
+      if (req.url.startsWith('/groups')) {
+        // an endless list of groups, two per page
+        const page = Number(req.url.split('=')[1] || 0);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(
+          JSON.stringify({
+            value: [{ id: `${page}-a` }, { id: `${page}-b` }],
+            '@odata.nextLink': `${baseUrl}/groups?page=${page + 1}`,
+          })
+        );
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          method: req.method,
+          url: req.url,
+          authorization: req.headers.authorization,
+          body: body ? JSON.parse(body) : null,
+        })
+      );
+    });
+  });
+
+  server.listen(0, '127.0.0.1', () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+test('calls a web API with method, query, body and bearer token', async () => {
+  const response = await FetchManager.callApi(`${baseUrl}/todos`, 'token', {
+    method: 'POST',
+    query: { filter: 'open' },
+    body: { title: 'todo' },
+  });
+
+  expect(response.status).toBe(200);
+  expect(response.data).toEqual({
+    method: 'POST',
+    url: '/todos?filter=open',
+    authorization: 'Bearer token',
+    body: { title: 'todo' },
+  });
+});
+
+test('throws a typed error with the claims challenge on 401', async () => {
+  const error = await FetchManager.callApi(`${baseUrl}/revoked`, 'token').catch(
+    e => e
+  );
+
+  expect(error).toBeInstanceOf(DownstreamApiError);
+  expect(error.status).toBe(401);
+  expect(error.claimsChallenge).toBe(claims);
+});
+
+test('reads a claims challenge from a WWW-Authenticate header', () => {
+  const header = `Bearer realm="", authorization_uri="https://login.microsoftonline.com/common/oauth2/authorize", error="insufficient_claims", claims="${Buffer.from(
+    claims
+  ).toString('base64')}"`;
+
+  expect(FetchManager.getClaimsChallenge(header)).toBe(claims);
+});
+
+test('returns null when there is no claims challenge', () => {
+  expect(FetchManager.getClaimsChallenge('Bearer realm=""')).toBeNull();
+  expect(FetchManager.getClaimsChallenge(undefined)).toBeNull();
+});
+
+test('retries throttled requests honouring Retry-After', async () => {
+  const response = await FetchManager.callApi(`${baseUrl}/throttled`, 'token');
+
+  expect(response.status).toBe(200);
+  expect(throttledRequests).toBe(3);
+});
+
+test('gives up after the maximum number of retries', async () => {
+  const error = await FetchManager.callApi(
+    `${baseUrl}/unavailable`,
+    'token',
+    {},
+    { maxRetries: 2, retryDelay: 10 }
+  ).catch(e => e);
+
+  expect(error).toBeInstanceOf(DownstreamApiError);
+  expect(error.status).toBe(503);
+});
+
+test('times out slow requests', async () => {
+  await expect(
+    FetchManager.callApi(`${baseUrl}/slow`, 'token', {}, { timeout: 100 })
+  ).rejects.toThrow(ErrorMessages.REQUEST_TIMED_OUT);
+});
+
+test('stops paging at the maximum page and item count', async () => {
+  expect(
+    await FetchManager.handlePagination('token', `${baseUrl}/groups`, [], {
+      maxPages: 2,
+    })
+  ).toEqual(['0-a', '0-b', '1-a', '1-b']);
+
+  expect(
+    await FetchManager.handlePagination('token', `${baseUrl}/groups`, [], {
+      maxItems: 3,
+    })
+  ).toEqual(['0-a', '0-b', '1-a']);
+});
+
+test('computes retry delays from Retry-After or exponential backoff', () => {
+  const options = { retryDelay: 100, maxRetryDelay: 1000 };
+
+  expect(FetchManager.getRetryDelay('2', 0, options)).toBe(1000);
+  expect(FetchManager.getRetryDelay('0.5', 0, options)).toBe(500);
+  expect(FetchManager.getRetryDelay(undefined, 0, options)).toBe(100);
+  expect(FetchManager.getRetryDelay(undefined, 2, options)).toBe(400);
+  expect(
+    FetchManager.getRetryDelay(new Date(0).toUTCString(), 0, options)
+  ).toBe(0);
+});
@@ -0,0 +1,62 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { LogLevel } from '@azure/msal-common';
+
+import { Logger } from '../src/Logger';
+import { LogEntry } from '../src/Types';
+import { LoggerConstants } from '../src/Constants';
+
+afterEach(() => {
+  Logger.setLoggerOptions({
+    logLevel: LogLevel.Info,
+    piiLoggingEnabled: false,
+    loggerCallback: undefined,
+  });
+});
+
+test('filters logs by level and PII policy', () => {
+  const entries: LogEntry[] = [];
+
+  Logger.setLoggerOptions({
+    logLevel: LogLevel.Warning,
+    loggerCallback: entry => entries.push(entry),
+  });
+
+  Logger.logError('error');
+  Logger.logInfo('info');
+  Logger.logWarning('user@contoso.com', true);
+  Logger.logMsalMessage(LogLevel.Verbose, 'msal verbose', false);
+
+  expect(entries.map(entry => entry.message)).toEqual(['error']);
+
+  Logger.setLoggerOptions({ piiLoggingEnabled: true });
+  Logger.logWarning('user@contoso.com', true);
+
+  expect(entries[1]).toMatchObject({
+    level: 'Warning',
+    containsPii: true,
+    source: LoggerConstants.WRAPPER_SOURCE,
+  });
+});
+
+test('adds the correlation ID of the current request', done => {
+  const entries: LogEntry[] = [];
+
+  Logger.setLoggerOptions({
+    loggerCallback: entry => entries.push(entry),
+  });
+
+  Logger.runWithCorrelationId('correlation-id', async () => {
+    await Promise.resolve();
+    Logger.logMsalMessage(LogLevel.Info, 'msal info', false);
+
+    expect(entries[0]).toMatchObject({
+      correlationId: 'correlation-id',
+      source: LoggerConstants.MSAL_SOURCE,
+    });
+    done();
+  });
+});
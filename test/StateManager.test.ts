@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { StateManager } from '../src/StateManager';
+import { AppSettings, State } from '../src/Types';
+import { ErrorMessages } from '../src/Constants';
+import { TEST_CONSTANTS } from './TestConstants';
+
+const getAppSettings = (keys: string[], expiresIn?: number): AppSettings => ({
+  appCredentials: {
+    clientId: TEST_CONSTANTS.CLIENT_ID,
+    tenantId: TEST_CONSTANTS.TENANT_ID,
+    clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+  },
+  stateOptions: {
+    keys: keys,
+    expiresIn: expiresIn,
+  },
+});
+
+const state: State = {
+  stage: 'sign_in',
+  path: TEST_CONSTANTS.APP_ROUTE,
+  nonce: 'nonce',
+  authority: TEST_CONSTANTS.AUTHORITY,
+  scopes: TEST_CONSTANTS.DEFAULT_GRAPH_SCOPE,
+};
+
+test('round-trips state without exposing the payload', () => {
+  const stateManager = new StateManager(getAppSettings(['key1']));
+  const encodedState = stateManager.encodeState(state);
+
+  expect(encodedState).not.toContain(TEST_CONSTANTS.APP_ROUTE);
+  expect(stateManager.decodeState(encodedState)).toEqual(state);
+});
+
+test('rejects tampered state', () => {
+  const stateManager = new StateManager(getAppSettings(['key1']));
+  const segments = stateManager.encodeState(state).split('.');
+
+  segments[2] = String(Number(segments[2]) + 1000); // extend expiry
+
+  expect(() => stateManager.decodeState(segments.join('.'))).toThrow(
+    ErrorMessages.INVALID_STATE
+  );
+});
+
+test('rejects expired state', () => {
+  const stateManager = new StateManager(getAppSettings(['key1'], -1));
+  const encodedState = stateManager.encodeState(state);
+
+  expect(() => stateManager.decodeState(encodedState)).toThrow(
+    ErrorMessages.STATE_EXPIRED
+  );
+});
+
+test('accepts state encrypted with a rotated key', () => {
+  const oldStateManager = new StateManager(getAppSettings(['key1']));
+  const newStateManager = new StateManager(getAppSettings(['key2', 'key1']));
+  const encodedState = oldStateManager.encodeState(state);
+
+  expect(newStateManager.decodeState(encodedState)).toEqual(state);
+  expect(() =>
+    new StateManager(getAppSettings(['key2'])).decodeState(encodedState)
+  ).toThrow(ErrorMessages.INVALID_STATE);
+});
+
+test('rejects state with a truncated authentication tag', () => {
+  const stateManager = new StateManager(getAppSettings(['key1']));
+  const segments = stateManager.encodeState(state).split('.');
+
+  segments[5] = segments[5].substring(0, 6); // first 4 bytes of the tag
+
+  expect(() => stateManager.decodeState(segments.join('.'))).toThrow(
+    ErrorMessages.INVALID_STATE
+  );
+});
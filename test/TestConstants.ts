@@ -9,6 +9,10 @@ export const TEST_CONSTANTS = {
   DEFAULT_AUTHORITY: 'https://login.microsoftonline.com/common/',
   AUTHORITY: 'https://login.microsoftonline.com/TenantId',
   ALTERNATE_AUTHORITY: 'https://login.microsoftonline.com/alternate',
+  B2C_SUSI_AUTHORITY:
+    'https://fabrikamb2c.b2clogin.com/fabrikamb2c.onmicrosoft.com/B2C_1_susi',
+  B2C_RESET_AUTHORITY:
+    'https://fabrikamb2c.b2clogin.com/fabrikamb2c.onmicrosoft.com/B2C_1_reset',
   REDIRECT_URI: 'http://localhost:8080',
   CLIENT_SECRET: 'MOCK_CLIENT_SECRET',
   DEFAULT_GRAPH_SCOPE: ['user.read'],
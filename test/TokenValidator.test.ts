@@ -0,0 +1,331 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+import { TokenValidator } from '../src/TokenValidator';
+import { ConfigurationUtils } from '../src/ConfigurationUtils';
+import { AppSettings, IdTokenClaims, AccessTokenClaims } from '../src/Types';
+import { ErrorMessages } from '../src/Constants';
+import { TEST_CONSTANTS } from './TestConstants';
+
+const b2cAppSettings: AppSettings = {
+  appCredentials: {
+    clientId: TEST_CONSTANTS.CLIENT_ID,
+    tenantId: TEST_CONSTANTS.TENANT_ID,
+    clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+  },
+  b2cPolicies: {
+    signUpSignIn: {
+      authority: TEST_CONSTANTS.B2C_SUSI_AUTHORITY,
+    },
+    resetPassword: {
+      authority: TEST_CONSTANTS.B2C_RESET_AUTHORITY,
+    },
+  },
+};
+
+const getValidator = (appSettings: AppSettings): TokenValidator =>
+  new TokenValidator(
+    appSettings,
+    ConfigurationUtils.getMsalConfiguration(appSettings)
+  );
+
+test('picks the B2C policy from the tfp or acr claim', () => {
+  const tokenValidator = getValidator(b2cAppSettings);
+
+  expect(
+    tokenValidator.getB2CPolicy({ tfp: 'B2C_1_reset' } as IdTokenClaims)
+  ).toEqual(b2cAppSettings.b2cPolicies.resetPassword);
+
+  expect(
+    tokenValidator.getB2CPolicy({ acr: 'b2c_1_susi' } as IdTokenClaims)
+  ).toEqual(b2cAppSettings.b2cPolicies.signUpSignIn);
+});
+
+test('picks the B2C policy from a tfp-style issuer', () => {
+  const tokenValidator = getValidator(b2cAppSettings);
+
+  expect(
+    tokenValidator.getB2CPolicy({
+      iss: `https://fabrikamb2c.b2clogin.com/tfp/${TEST_CONSTANTS.TENANT_ID}/B2C_1_reset/v2.0/`,
+    } as IdTokenClaims)
+  ).toEqual(b2cAppSettings.b2cPolicies.resetPassword);
+});
+
+test('rejects tokens issued under an unknown B2C policy', () => {
+  const tokenValidator = getValidator(b2cAppSettings);
+
+  expect(() =>
+    tokenValidator.getB2CPolicy({ tfp: 'B2C_1_unknown' } as IdTokenClaims)
+  ).toThrow();
+});
+
+/**
+ * Gets the JWK of an RSA public key, by reading the modulus
+ * and exponent from its PKCS#1 encoding
+ */
+const getJwk = (publicKey: crypto.KeyObject, kid: string) => {
+  const der = publicKey.export({ type: 'pkcs1', format: 'der' }) as Buffer;
+
+  const readInteger = (offset: number): [Buffer, number] => {
+    let length = der[offset + 1];
+    let start = offset + 2;
+
+    if (length & 0x80) {
+      const bytes = length & 0x7f;
+      length = der.readUIntBE(start, bytes);
+      start += bytes;
+    }
+
+    const value = der.slice(start, start + length);
+    return [value[0] === 0 ? value.slice(1) : value, start + length];
+  };
+
+  const toBase64Url = (value: Buffer) =>
+    value
+      .toString('base64')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
+  const [n, next] = readInteger(der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2);
+  const [e] = readInteger(next);
+
+  return { kty: 'RSA', use: 'sig', kid, n: toBase64Url(n), e: toBase64Url(e) };
+};
+
+test('verifies signatures offline with keys preloaded from a JWKS file', async () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+
+  const localKeysPath = path.join(os.tmpdir(), `jwks-${Date.now()}.json`);
+  fs.writeFileSync(
+    localKeysPath,
+    JSON.stringify({ keys: [getJwk(publicKey, 'test-kid')] })
+  );
+
+  const tokenValidator = getValidator({
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    signingKeyOptions: {
+      localKeysPath: localKeysPath,
+    },
+  });
+
+  const token = jwt.sign(
+    { tid: TEST_CONSTANTS.TENANT_ID, aud: TEST_CONSTANTS.CLIENT_ID },
+    privateKey.export({ type: 'pkcs1', format: 'pem' }),
+    { algorithm: 'RS256', keyid: 'test-kid' }
+  );
+
+  const verifiedToken = await tokenValidator.verifyTokenSignature(token);
+  fs.unlinkSync(localKeysPath);
+
+  expect(verifiedToken).toMatchObject({ aud: TEST_CONSTANTS.CLIENT_ID });
+});
+
+test('fetches keys from the configured authority, regardless of the token tenant', async () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+
+  const localKeysPath = path.join(os.tmpdir(), `jwks-${Date.now()}.json`);
+  fs.writeFileSync(
+    localKeysPath,
+    JSON.stringify({ keys: [getJwk(publicKey, 'test-kid')] })
+  );
+
+  const tokenValidator = getValidator({
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: 'common',
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    signingKeyOptions: {
+      localKeysPath: localKeysPath,
+    },
+  });
+
+  // tokens with forged tenants must not create a key set client each
+  for (const tid of ['forged-tenant-1', 'forged-tenant-2']) {
+    const token = jwt.sign(
+      { tid, aud: TEST_CONSTANTS.CLIENT_ID },
+      privateKey.export({ type: 'pkcs1', format: 'pem' }),
+      { algorithm: 'RS256', keyid: 'test-kid' }
+    );
+
+    await tokenValidator.verifyTokenSignature(token);
+  }
+
+  fs.unlinkSync(localKeysPath);
+
+  expect(Array.from((tokenValidator as any).jwksClients.keys())).toEqual([
+    'https://login.microsoftonline.com/common/discovery/v2.0/keys',
+  ]);
+});
+
+test('validates multi-tenant issuers per token without mutating settings', async () => {
+  const appSettings: AppSettings = {
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: 'organizations',
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    tokenValidationOptions: {
+      allowedTenants: [TEST_CONSTANTS.TENANT_ID],
+    },
+  };
+
+  const tokenValidator = getValidator(appSettings);
+  const now = Math.round(new Date().getTime() / 1000);
+
+  const getClaims = (tid: string) =>
+    ({
+      tid: tid,
+      iss: `https://login.microsoftonline.com/${tid}/v2.0`,
+      aud: TEST_CONSTANTS.CLIENT_ID,
+      iat: now,
+      exp: now + 3600,
+    } as IdTokenClaims);
+
+  expect(
+    tokenValidator.validateIdTokenClaims(getClaims(TEST_CONSTANTS.TENANT_ID))
+      .isValid
+  ).toBe(true);
+  expect(
+    tokenValidator.validateIdTokenClaims(getClaims('other-tenant')).isValid
+  ).toBe(true);
+  expect(
+    tokenValidator.validateIdTokenClaims({
+      ...getClaims('other-tenant'),
+      iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+    }).isValid
+  ).toBe(false);
+
+  expect(appSettings.appCredentials.tenantId).toBe('organizations');
+});
+
+test('reports a reason for each failed claim check', () => {
+  const tokenValidator = getValidator({
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    tokenValidationOptions: {
+      clockSkew: 60,
+    },
+  });
+
+  const now = Math.round(new Date().getTime() / 1000);
+
+  const claims = {
+    iss: `https://sts.windows.net/${TEST_CONSTANTS.TENANT_ID}/`,
+    aud: TEST_CONSTANTS.CLIENT_ID,
+    nonce: 'nonce',
+    iat: now,
+    nbf: now + 30, // within clock skew
+    exp: now - 30, // within clock skew
+  } as IdTokenClaims;
+
+  expect(tokenValidator.validateIdTokenClaims(claims, 'nonce')).toMatchObject({
+    isValid: true,
+    errors: [],
+  });
+
+  expect(
+    tokenValidator.validateIdTokenClaims(
+      { ...claims, nbf: now + 120, exp: now - 120 },
+      'other-nonce'
+    ).errors
+  ).toEqual([
+    ErrorMessages.TOKEN_EXPIRED,
+    ErrorMessages.TOKEN_NOT_YET_VALID,
+    ErrorMessages.NONCE_MISMATCH,
+  ]);
+});
+
+test('rejects access tokens missing the scopes of the owned resource for a route', () => {
+  const tokenValidator = getValidator({
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    ownedResources: {
+      todoListAPI: {
+        endpoint: '/api/todolist',
+        scopes: ['Todolist.Read'],
+      },
+    },
+  });
+
+  const now = Math.round(new Date().getTime() / 1000);
+
+  const claims = {
+    iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+    aud: TEST_CONSTANTS.CLIENT_ID,
+    iat: now,
+    exp: now + 3600,
+    scp: 'Todolist.Read',
+  } as AccessTokenClaims;
+
+  expect(
+    tokenValidator.validateAccessTokenClaims(claims, '/api/todolist').isValid
+  ).toBe(true);
+  expect(
+    tokenValidator.validateAccessTokenClaims(
+      { ...claims, scp: 'User.Read' },
+      '/api/todolist'
+    ).errors
+  ).toEqual([ErrorMessages.TOKEN_HAS_NO_SCOPE]);
+});
+
+test('rejects access tokens for routes without an owned resource, unless allowed', () => {
+  const appSettings: AppSettings = {
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    ownedResources: {
+      todoListAPI: {
+        endpoint: '/api/todolist',
+        scopes: ['Todolist.Read'],
+      },
+    },
+  };
+
+  const now = Math.round(new Date().getTime() / 1000);
+
+  const claims = {
+    iss: `https://login.microsoftonline.com/${TEST_CONSTANTS.TENANT_ID}/v2.0`,
+    aud: TEST_CONSTANTS.CLIENT_ID,
+    iat: now,
+    exp: now + 3600,
+    scp: 'Todolist.Read',
+  } as AccessTokenClaims;
+
+  expect(
+    getValidator(appSettings).validateAccessTokenClaims(claims, '/api/other')
+      .errors
+  ).toEqual([ErrorMessages.OWNED_RESOURCE_NOT_FOUND]);
+
+  expect(
+    getValidator({
+      ...appSettings,
+      tokenValidationOptions: { allowUnlistedRoutes: true },
+    }).validateAccessTokenClaims(claims, '/api/other').isValid
+  ).toBe(true);
+});
@@ -0,0 +1,34 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { UrlUtils } from '../src/UrlUtils';
+
+test('matches Express-style route patterns', () => {
+  expect(UrlUtils.matchPath('/admin', '/admin')).toBe(true);
+  expect(UrlUtils.matchPath('/admin', '/Admin/')).toBe(true);
+  expect(UrlUtils.matchPath('/admin', '/admin/users')).toBe(false);
+
+  expect(UrlUtils.matchPath('/users/:id', '/users/42')).toBe(true);
+  expect(UrlUtils.matchPath('/users/:id', '/users')).toBe(false);
+  expect(UrlUtils.matchPath('/users/:id?', '/users')).toBe(true);
+
+  expect(UrlUtils.matchPath('/admin/*', '/admin')).toBe(true);
+  expect(UrlUtils.matchPath('/admin/*', '/admin/users/42')).toBe(true);
+  expect(UrlUtils.matchPath('/files/*.png', '/files/logo.png')).toBe(true);
+  expect(UrlUtils.matchPath('/files/*.png', '/files/logo.jpg')).toBe(false);
+});
+
+test('ranks static segments above params and params above wildcards', () => {
+  const patterns = ['/admin/*', '/admin/:section', '/admin/users'];
+
+  const [mostSpecific] = patterns.sort((a, b) => {
+    const specificityA = UrlUtils.getPathSpecificity(a);
+    const specificityB = UrlUtils.getPathSpecificity(b);
+    const index = specificityA.findIndex((v, i) => v !== specificityB[i]);
+    return index === -1 ? 0 : specificityB[index] - specificityA[index];
+  });
+
+  expect(mostSpecific).toBe('/admin/users');
+});
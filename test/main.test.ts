@@ -3,10 +3,60 @@
  * Licensed under the MIT License.
  */
 
+import crypto from 'crypto';
+import { InteractionRequiredAuthError } from '@azure/msal-common';
+
 import { AuthProvider } from '../src/AuthProvider';
+import { FetchManager, DownstreamApiError } from '../src/FetchManager';
 import { AppSettings } from '../src/Types';
+import { ErrorMessages } from '../src/Constants';
 import { TEST_CONSTANTS } from './TestConstants';
 
+const getAuthProvider = (appSettings?: Partial<AppSettings>): AuthProvider =>
+  new AuthProvider({
+    appCredentials: {
+      clientId: TEST_CONSTANTS.CLIENT_ID,
+      tenantId: TEST_CONSTANTS.TENANT_ID,
+      clientSecret: TEST_CONSTANTS.CLIENT_SECRET,
+    },
+    authRoutes: {
+      redirect: '/redirect',
+      error: '/error',
+      unauthorized: '/unauthorized',
+    },
+    ...appSettings,
+  });
+
+const getRequest = (session: any, query?: any): any => ({
+  protocol: 'http',
+  get: () => 'localhost:4000',
+  originalUrl: TEST_CONSTANTS.APP_ROUTE,
+  session: session,
+  query: query,
+});
+
+const getGuardResponse = (): any => {
+  const res: any = {
+    redirect: jest.fn(),
+    set: jest.fn(() => res),
+    status: jest.fn(() => res),
+    type: jest.fn(() => res),
+    json: jest.fn(() => res),
+  };
+  return res;
+};
+
+// auth code URLs are replaced with the request's state, to redirect back with
+const mockAuthCodeUrl = (authApp: AuthProvider) =>
+  jest
+    .spyOn(authApp.msalClient, 'getAuthCodeUrl')
+    .mockImplementation(async request => request.state);
+
+const getClaimsChallengeHeader = (claims: string): string =>
+  `Bearer error="insufficient_claims", claims="${Buffer.from(claims).toString(
+    'base64'
+  )}"`;
+
 test('instantiates a class', () => {
   let appSettings: AppSettings = {
     appCredentials: {
@@ -24,3 +74,1143 @@ test('instantiates a class', () => {
   const authApp = new AuthProvider(appSettings);
   expect(authApp).toBeInstanceOf(AuthProvider);
 });
+
+test('emits an event when access is denied', () => {
+  const authApp = getAuthProvider();
+
+  const listener = jest.fn();
+  authApp.on('accessDenied', listener);
+
+  const req: any = { session: {}, xhr: true };
+  const res = getGuardResponse();
+
+  authApp.isAuthenticated()(req, res, jest.fn());
+
+  expect(res.status).toHaveBeenCalledWith(401);
+  expect(listener).toHaveBeenCalledWith(
+    expect.objectContaining({ req, status: 401 })
+  );
+});
+
+test('emits events when sign-in succeeds or fails', async () => {
+  const authApp = getAuthProvider();
+  mockAuthCodeUrl(authApp);
+
+  const account = { homeAccountId: 'oid.tid' };
+  const claims = { oid: 'oid', tid: TEST_CONSTANTS.TENANT_ID };
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenByCode')
+    .mockResolvedValue({ idToken: 'ID_TOKEN', account: account } as any);
+
+  const validateIdToken = jest
+    .spyOn((authApp as any).tokenValidator, 'validateIdToken')
+    .mockResolvedValueOnce({ isValid: true, claims: claims, errors: [] })
+    .mockResolvedValueOnce({
+      isValid: false,
+      claims: claims,
+      errors: [ErrorMessages.TOKEN_EXPIRED],
+    });
+
+  const signInSucceeded = jest.fn();
+  const signInFailed = jest.fn();
+
+  authApp.on('signInSucceeded', signInSucceeded);
+  authApp.on('signInFailed', signInFailed);
+
+  const signIn = async (): Promise<void> => {
+    const session: any = {};
+    const res: any = { redirect: jest.fn() };
+
+    await authApp.signIn()(getRequest(session), res, jest.fn());
+
+    await (authApp as any).handleRedirect()(
+      getRequest(session, {
+        code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+        state: res.redirect.mock.calls[0][0],
+      }),
+      res,
+      jest.fn()
+    );
+  };
+
+  await signIn();
+
+  expect(signInSucceeded).toHaveBeenCalledWith(
+    expect.objectContaining({ account: account, claims: claims })
+  );
+  expect(signInFailed).not.toHaveBeenCalled();
+
+  await signIn();
+
+  expect(signInSucceeded).toHaveBeenCalledTimes(1);
+  expect(signInFailed).toHaveBeenCalledWith(
+    expect.objectContaining({
+      reason: ErrorMessages.INVALID_TOKEN,
+      errors: [ErrorMessages.TOKEN_EXPIRED],
+      claims: claims,
+    })
+  );
+
+  // state that cannot be verified fails sign-in before tokens are redeemed
+  await (authApp as any).handleRedirect()(
+    getRequest({}, { code: TEST_CONSTANTS.AUTHORIZATION_CODE, state: 'state' }),
+    { redirect: jest.fn() },
+    jest.fn()
+  );
+
+  expect(signInFailed).toHaveBeenCalledTimes(2);
+  expect(validateIdToken).toHaveBeenCalledTimes(2);
+});
+
+test('emits events when interaction is required and tokens are acquired', async () => {
+  const authApp = getAuthProvider({
+    remoteResources: {
+      graphAPI: { endpoint: 'https://graph', scopes: ['User.Read'] },
+    },
+  });
+  mockAuthCodeUrl(authApp);
+
+  const account = { homeAccountId: 'oid.tid' };
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenSilent')
+    .mockRejectedValue(new InteractionRequiredAuthError('consent_required'));
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenByCode')
+    .mockResolvedValue({ account: account } as any);
+
+  const interactionRequired = jest.fn();
+  const tokenAcquired = jest.fn();
+
+  authApp.on('interactionRequired', interactionRequired);
+  authApp.on('tokenAcquired', tokenAcquired);
+
+  const session: any = { isAuthenticated: true, account: account };
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.getToken({
+    resource: authApp.appSettings.remoteResources.graphAPI,
+  })(getRequest(session), res, jest.fn());
+
+  expect(interactionRequired).toHaveBeenCalledWith(
+    expect.objectContaining({ resource: 'graphAPI', scopes: ['User.Read'] })
+  );
+  expect(tokenAcquired).not.toHaveBeenCalled();
+
+  await (authApp as any).handleRedirect()(
+    getRequest(session, {
+      code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+      state: res.redirect.mock.calls[0][0],
+    }),
+    res,
+    jest.fn()
+  );
+
+  expect(tokenAcquired).toHaveBeenCalledWith(
+    expect.objectContaining({
+      resource: 'graphAPI',
+      scopes: ['User.Read'],
+      account: account,
+    })
+  );
+});
+
+test('emits an event on sign-out, even if a listener throws', async () => {
+  const authApp = getAuthProvider();
+
+  const getOpenIdConfiguration = jest
+    .spyOn(FetchManager, 'getOpenIdConfiguration')
+    .mockResolvedValue({
+      issuer: TEST_CONSTANTS.AUTHORITY,
+      end_session_endpoint: `${TEST_CONSTANTS.AUTHORITY}/oauth2/v2.0/logout`,
+    });
+
+  const account = { homeAccountId: 'oid.tid', idTokenClaims: {} };
+
+  const signedOut = jest.fn(() => {
+    throw new Error('listener failed');
+  });
+  authApp.on('signedOut', signedOut);
+
+  const req = getRequest({ account: account, destroy: callback => callback() });
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.signOut()(req, res, jest.fn());
+
+  expect(signedOut).toHaveBeenCalledWith(
+    expect.objectContaining({ req, account: account })
+  );
+  expect(res.redirect).toHaveBeenCalledTimes(1);
+
+  getOpenIdConfiguration.mockRestore();
+});
+
+test('signs out of the active B2C policy and clears the token cache', async () => {
+  const authApp = getAuthProvider({
+    b2cPolicies: {
+      signUpSignIn: { authority: TEST_CONSTANTS.B2C_SUSI_AUTHORITY },
+      resetPassword: { authority: TEST_CONSTANTS.B2C_RESET_AUTHORITY },
+    },
+  });
+
+  const homeAccountId = `oid-b2c_1_reset.${TEST_CONSTANTS.TENANT_ID}`;
+  const environment = 'fabrikamb2c.b2clogin.com';
+
+  authApp.msalClient.getTokenCache().deserialize(
+    JSON.stringify({
+      Account: {
+        [`${homeAccountId}-${environment}-${TEST_CONSTANTS.TENANT_ID}`]: {
+          home_account_id: homeAccountId,
+          environment: environment,
+          realm: TEST_CONSTANTS.TENANT_ID,
+          local_account_id: 'oid',
+          username: 'user@contoso.com',
+          authority_type: 'MSSTS',
+        },
+      },
+      AccessToken: {},
+      RefreshToken: {},
+      AppMetadata: {},
+    })
+  );
+
+  const [account] = await authApp.msalClient.getTokenCache().getAllAccounts();
+
+  const getOpenIdConfiguration = jest
+    .spyOn(FetchManager, 'getOpenIdConfiguration')
+    .mockResolvedValue({
+      issuer: TEST_CONSTANTS.B2C_RESET_AUTHORITY,
+      end_session_endpoint: `${TEST_CONSTANTS.B2C_RESET_AUTHORITY}/oauth2/v2.0/logout`,
+    });
+
+  const req: any = {
+    protocol: 'http',
+    get: () => 'localhost:4000',
+    session: {
+      account: {
+        ...account,
+        idTokenClaims: { tfp: 'B2C_1_reset', login_hint: 'hint' },
+      },
+      destroy: callback => callback(),
+    },
+  };
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.signOut({ successRedirect: '/?signedOut=true' })(
+    req,
+    res,
+    jest.fn()
+  );
+
+  const logoutUrl = new URL(res.redirect.mock.calls[0][0]);
+
+  expect(getOpenIdConfiguration).toHaveBeenCalledWith(
+    TEST_CONSTANTS.B2C_RESET_AUTHORITY,
+    undefined
+  );
+  expect(logoutUrl.pathname).toBe(
+    '/fabrikamb2c.onmicrosoft.com/B2C_1_reset/oauth2/v2.0/logout'
+  );
+  expect(logoutUrl.searchParams.get('post_logout_redirect_uri')).toBe(
+    'http://localhost:4000/?signedOut=true'
+  );
+  expect(logoutUrl.searchParams.get('logout_hint')).toBe('hint');
+  expect(await authApp.msalClient.getTokenCache().getAllAccounts()).toEqual([]);
+
+  getOpenIdConfiguration.mockRestore();
+});
+
+test('accepts state only once, and only from the session that started the flow', async () => {
+  const authApp = getAuthProvider();
+  mockAuthCodeUrl(authApp);
+
+  const acquireTokenByCode = jest
+    .spyOn(authApp.msalClient, 'acquireTokenByCode')
+    .mockResolvedValue({ account: null } as any);
+
+  const session: any = {};
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.requestConsent({
+    resource: { endpoint: '', scopes: TEST_CONSTANTS.DEFAULT_GRAPH_SCOPE },
+    successRedirect: '/consented',
+  })(getRequest(session), res, jest.fn());
+
+  const query = {
+    code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+    state: res.redirect.mock.calls[0][0],
+  };
+
+  const handleRedirect = (authApp as any).handleRedirect();
+
+  await handleRedirect(getRequest({}, query), res, jest.fn());
+  expect(res.redirect).toHaveBeenLastCalledWith('/unauthorized');
+
+  await handleRedirect(getRequest(session, query), res, jest.fn());
+  expect(res.redirect).toHaveBeenLastCalledWith('/consented');
+
+  await handleRedirect(getRequest(session, query), res, jest.fn());
+  expect(res.redirect).toHaveBeenLastCalledWith('/unauthorized');
+
+  expect(acquireTokenByCode).toHaveBeenCalledTimes(1);
+});
+
+test('sends the PKCE challenge with the auth code request and keeps the verifier in session', async () => {
+  const authApp = getAuthProvider();
+  const getAuthCodeUrl = mockAuthCodeUrl(authApp);
+
+  const acquireTokenByCode = jest
+    .spyOn(authApp.msalClient, 'acquireTokenByCode')
+    .mockResolvedValue({ account: null } as any);
+
+  const session: any = {};
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.requestConsent({
+    resource: { endpoint: '', scopes: TEST_CONSTANTS.DEFAULT_GRAPH_SCOPE },
+    successRedirect: '/consented',
+  })(getRequest(session), res, jest.fn());
+
+  const [{ codeVerifier }] = Object.values(session.authFlows) as any[];
+  const authCodeRequest = getAuthCodeUrl.mock.calls[0][0];
+
+  expect(authCodeRequest.codeChallengeMethod).toBe('S256');
+  expect(authCodeRequest.codeChallenge).toBe(
+    crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '')
+  );
+  expect(
+    (authApp as any).stateManager.decodeState(authCodeRequest.state)
+  ).not.toHaveProperty('codeVerifier');
+
+  await (authApp as any).handleRedirect()(
+    getRequest(session, {
+      code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+      state: authCodeRequest.state,
+    }),
+    res,
+    jest.fn()
+  );
+
+  expect(acquireTokenByCode).toHaveBeenCalledWith(
+    expect.objectContaining({
+      code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+      codeVerifier: codeVerifier,
+    })
+  );
+});
+
+test('rejects a code sent without the verifier of its flow', async () => {
+  const authApp = getAuthProvider();
+  mockAuthCodeUrl(authApp);
+
+  const acquireTokenByCode = jest.spyOn(
+    authApp.msalClient,
+    'acquireTokenByCode'
+  );
+
+  const victimSession: any = {};
+  const attackerSession: any = {};
+  const res: any = { redirect: jest.fn() };
+
+  const requestConsent = authApp.requestConsent({
+    resource: { endpoint: '', scopes: TEST_CONSTANTS.DEFAULT_GRAPH_SCOPE },
+    successRedirect: '/consented',
+  });
+
+  await requestConsent(getRequest(victimSession), res, jest.fn());
+  await requestConsent(getRequest(attackerSession), res, jest.fn());
+
+  // the code and state are intercepted, and replayed in another session
+  await (authApp as any).handleRedirect()(
+    getRequest(attackerSession, {
+      code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+      state: res.redirect.mock.calls[0][0],
+    }),
+    res,
+    jest.fn()
+  );
+
+  expect(res.redirect).toHaveBeenLastCalledWith('/unauthorized');
+  expect(acquireTokenByCode).not.toHaveBeenCalled();
+});
+
+test('redirects to the root after sign-in and sign-out without options', async () => {
+  const authApp = getAuthProvider();
+  mockAuthCodeUrl(authApp);
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenByCode')
+    .mockResolvedValue({ idToken: 'ID_TOKEN', account: {} } as any);
+
+  jest
+    .spyOn((authApp as any).tokenValidator, 'validateIdToken')
+    .mockResolvedValue({ isValid: true, claims: {}, errors: [] });
+
+  const session: any = { destroy: callback => callback() };
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.signIn()(getRequest(session), res, jest.fn());
+
+  await (authApp as any).handleRedirect()(
+    getRequest(session, {
+      code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+      state: res.redirect.mock.calls[0][0],
+    }),
+    res,
+    jest.fn()
+  );
+
+  expect(res.redirect).toHaveBeenLastCalledWith('/');
+
+  const getOpenIdConfiguration = jest
+    .spyOn(FetchManager, 'getOpenIdConfiguration')
+    .mockRejectedValue(new Error('offline'));
+
+  await authApp.signOut()(getRequest(session), res, jest.fn());
+
+  const logoutUrl = new URL(res.redirect.mock.calls[2][0]);
+
+  expect(logoutUrl.searchParams.get('post_logout_redirect_uri')).toBe(
+    'http://localhost:4000/'
+  );
+
+  getOpenIdConfiguration.mockRestore();
+});
+
+test('starts the B2C password reset flow when the user forgot their password', async () => {
+  const authApp = getAuthProvider({
+    b2cPolicies: {
+      signUpSignIn: { authority: TEST_CONSTANTS.B2C_SUSI_AUTHORITY },
+      resetPassword: { authority: TEST_CONSTANTS.B2C_RESET_AUTHORITY },
+    },
+  });
+  const getAuthCodeUrl = mockAuthCodeUrl(authApp);
+
+  const session: any = {};
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.signIn({ successRedirect: '/home' })(
+    getRequest(session),
+    res,
+    jest.fn()
+  );
+
+  await (authApp as any).handleRedirect()(
+    getRequest(session, {
+      error: 'access_denied',
+      error_description: 'AADB2C90118: The user has forgotten their password.',
+      state: res.redirect.mock.calls[0][0],
+    }),
+    res,
+    jest.fn()
+  );
+
+  const resetRequest = getAuthCodeUrl.mock.calls[1][0];
+
+  expect(resetRequest.authority).toBe(TEST_CONSTANTS.B2C_RESET_AUTHORITY);
+  expect((authApp as any).stateManager.decodeState(resetRequest.state)).toEqual(
+    expect.objectContaining({ policy: 'resetPassword', path: '/home' })
+  );
+  expect(res.redirect).toHaveBeenLastCalledWith(resetRequest.state);
+});
+
+test('redirects browser navigation and sends problem details to API calls', () => {
+  const authApp = getAuthProvider();
+
+  const browserRequest = { session: {}, accepts: () => 'html' };
+  const apiRequest = { session: {}, accepts: () => 'json' };
+
+  const browserResponse = getGuardResponse();
+  authApp.isAuthenticated()(browserRequest as any, browserResponse, jest.fn());
+
+  expect(browserResponse.redirect).toHaveBeenCalledWith('/unauthorized');
+  expect(browserResponse.status).not.toHaveBeenCalled();
+
+  const apiResponse = getGuardResponse();
+  authApp.isAuthenticated()(apiRequest as any, apiResponse, jest.fn());
+
+  expect(apiResponse.redirect).not.toHaveBeenCalled();
+  expect(apiResponse.status).toHaveBeenCalledWith(401);
+  expect(apiResponse.set).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer');
+  expect(apiResponse.type).toHaveBeenCalledWith('application/problem+json');
+  expect(apiResponse.json).toHaveBeenCalledWith(
+    expect.objectContaining({ status: 401, title: 'Unauthorized' })
+  );
+
+  // the response type can be set per guard
+  const jsonResponse = getGuardResponse();
+  authApp.isAuthenticated({ responseType: 'json' })(
+    browserRequest as any,
+    jsonResponse,
+    jest.fn()
+  );
+
+  expect(jsonResponse.redirect).not.toHaveBeenCalled();
+  expect(jsonResponse.status).toHaveBeenCalledWith(401);
+});
+
+test('enforces the most specific access rule, even if it does not allow the method', async () => {
+  const authApp = getAuthProvider({
+    accessMatrix: {
+      api: {
+        path: '/api/*',
+        methods: ['GET', 'POST', 'DELETE'],
+        roles: ['User'],
+      },
+      admin: {
+        path: '/api/admin/*',
+        methods: ['GET'],
+        roles: ['Admin'],
+      },
+    },
+  });
+
+  const getUserRequest = (method: string, path: string): any => ({
+    method: method,
+    baseUrl: '',
+    path: path,
+    accepts: () => 'json',
+    session: {
+      isAuthenticated: true,
+      account: { idTokenClaims: { roles: ['User'] } },
+    },
+  });
+
+  const next = jest.fn();
+  await authApp.hasAccess()(
+    getUserRequest('DELETE', '/api/users'),
+    getGuardResponse(),
+    next
+  );
+
+  expect(next).toHaveBeenCalled();
+
+  const res = getGuardResponse();
+  await authApp.hasAccess()(
+    getUserRequest('DELETE', '/api/admin/users'),
+    res,
+    next
+  );
+
+  expect(res.status).toHaveBeenCalledWith(403);
+  expect(next).toHaveBeenCalledTimes(1);
+});
+
+test('lets anonymous requests through routes without an access rule', async () => {
+  const authApp = getAuthProvider({
+    accessMatrix: {
+      admin: { path: '/admin/*', methods: ['GET'], roles: ['Admin'] },
+    },
+  });
+
+  const getAnonymousRequest = (path: string): any => ({
+    method: 'GET',
+    baseUrl: '',
+    path: path,
+    accepts: () => 'json',
+    session: {},
+  });
+
+  const next = jest.fn();
+  await authApp.hasAccess()(
+    getAnonymousRequest('/public'),
+    getGuardResponse(),
+    next
+  );
+
+  expect(next).toHaveBeenCalled();
+
+  const res = getGuardResponse();
+  await authApp.hasAccess()(getAnonymousRequest('/admin/users'), res, next);
+
+  expect(res.status).toHaveBeenCalledWith(401);
+
+  const failClosedResponse = getGuardResponse();
+  await authApp.hasAccess({ failClosed: true })(
+    getAnonymousRequest('/public'),
+    failClosedResponse,
+    next
+  );
+
+  expect(failClosedResponse.status).toHaveBeenCalledWith(401);
+  expect(next).toHaveBeenCalledTimes(1);
+});
+
+test('authorizes user tokens by scopes and roles, and app-only tokens by app roles', async () => {
+  const authApp = getAuthProvider();
+
+  const accessRule = {
+    path: '/api/todos',
+    methods: ['GET'],
+    scopes: ['Todos.Read'],
+    roles: ['Todos.Read.All'],
+  };
+
+  const isAllowed = async (req: any): Promise<boolean> => {
+    const next = jest.fn();
+
+    await authApp.hasAccess({ accessRule })(
+      { method: 'GET', accepts: () => 'json', ...req },
+      getGuardResponse(),
+      next
+    );
+    return next.mock.calls.length > 0;
+  };
+
+  const withToken = (claims: any) => ({
+    authContext: { accessTokenClaims: claims },
+  });
+
+  // delegated tokens
+  expect(
+    await isAllowed(
+      withToken({ scp: 'Todos.Read User.Read', roles: ['Todos.Read.All'] })
+    )
+  ).toBe(true);
+  expect(await isAllowed(withToken({ scp: 'Todos.Read User.Read' }))).toBe(
+    false
+  );
+  expect(
+    await isAllowed(withToken({ scp: 'User.Read', roles: ['Todos.Read.All'] }))
+  ).toBe(false);
+
+  // app-only tokens
+  expect(await isAllowed(withToken({ roles: ['Todos.Read.All'] }))).toBe(true);
+  expect(
+    await isAllowed(withToken({ idtyp: 'app', roles: ['Todos.Read.All'] }))
+  ).toBe(true);
+  expect(await isAllowed(withToken({ roles: ['Todos.Write.All'] }))).toBe(
+    false
+  );
+
+  // ID token claims in session are never app-only, despite having no scopes
+  expect(
+    await isAllowed({
+      session: {
+        isAuthenticated: true,
+        account: { idTokenClaims: { roles: ['Todos.Read.All'] } },
+      },
+    })
+  ).toBe(false);
+});
+
+test('asks for consent to extra scopes at sign-in, while only redeeming OIDC scopes', async () => {
+  const authApp = getAuthProvider();
+  const getAuthCodeUrl = mockAuthCodeUrl(authApp);
+
+  await authApp.signIn({
+    successRedirect: '/home',
+    extraScopesToConsent: ['Mail.Read'],
+  })(getRequest({}), { redirect: jest.fn() } as any, jest.fn());
+
+  const authCodeRequest = getAuthCodeUrl.mock.calls[0][0];
+
+  expect(authCodeRequest.extraScopesToConsent).toEqual(['Mail.Read']);
+  expect(authCodeRequest.scopes).not.toContain('Mail.Read');
+  expect(
+    (authApp as any).stateManager.decodeState(authCodeRequest.state).scopes
+  ).not.toContain('Mail.Read');
+});
+
+test('acquires tokens for several resources with a single consent redirect', async () => {
+  const authApp = getAuthProvider({
+    remoteResources: {
+      graphAPI: { endpoint: 'https://graph', scopes: ['User.Read'] },
+      mailAPI: { endpoint: 'https://mail', scopes: ['Mail.Read'] },
+      filesAPI: { endpoint: 'https://files', scopes: ['Files.Read'] },
+    },
+  });
+  const getAuthCodeUrl = mockAuthCodeUrl(authApp);
+
+  const consentedScopes = ['User.Read'];
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenSilent')
+    .mockImplementation(async request => {
+      if (!consentedScopes.includes(request.scopes[0])) {
+        throw new InteractionRequiredAuthError('consent_required');
+      }
+      return { accessToken: `${request.scopes[0]} token` } as any;
+    });
+
+  const getTokens = authApp.getTokens({
+    resources: ['graphAPI', 'mailAPI', 'filesAPI'],
+  });
+
+  const res: any = { redirect: jest.fn() };
+  const next = jest.fn();
+
+  await getTokens(getRequest({ isAuthenticated: true }), res, next);
+
+  expect(next).not.toHaveBeenCalled();
+  expect(res.redirect).toHaveBeenCalledTimes(1);
+  expect(getAuthCodeUrl).toHaveBeenCalledTimes(1);
+  expect(getAuthCodeUrl.mock.calls[0][0]).toEqual(
+    expect.objectContaining({
+      scopes: ['Mail.Read'],
+      extraScopesToConsent: ['Files.Read'],
+    })
+  );
+
+  // once consented to, all tokens are acquired silently
+  consentedScopes.push('Mail.Read', 'Files.Read');
+
+  const req = getRequest({ isAuthenticated: true });
+  await getTokens(req, res, next);
+
+  expect(next).toHaveBeenCalledWith();
+  expect(req.authContext.tokens).toEqual({
+    graphAPI: 'User.Read token',
+    mailAPI: 'Mail.Read token',
+    filesAPI: 'Files.Read token',
+  });
+});
+
+test('reads access tokens from the token cache via req.getAccessToken', async () => {
+  const authApp = getAuthProvider({
+    remoteResources: {
+      graphAPI: { endpoint: 'https://graph', scopes: ['User.Read'] },
+    },
+  });
+
+  const acquireTokenSilent = jest
+    .spyOn(authApp.msalClient, 'acquireTokenSilent')
+    .mockResolvedValue({ accessToken: TEST_CONSTANTS.ACCESS_TOKEN } as any);
+
+  // the first handler of the router attaches request-scoped helpers
+  const [requestContext] = authApp.initialize().stack;
+
+  const account = { homeAccountId: 'oid.tid' };
+  const session: any = { isAuthenticated: true, account: account };
+  const req = getRequest(session);
+
+  requestContext.handle(req, {}, jest.fn());
+
+  expect(await req.getAccessToken('graphAPI')).toBe(
+    TEST_CONSTANTS.ACCESS_TOKEN
+  );
+  expect(acquireTokenSilent).toHaveBeenCalledWith(
+    expect.objectContaining({ account: account, scopes: ['User.Read'] })
+  );
+  expect(session).toEqual({ isAuthenticated: true, account: account });
+
+  const anonymousReq = getRequest({});
+  requestContext.handle(anonymousReq, {}, jest.fn());
+
+  await expect(anonymousReq.getAccessToken('graphAPI')).rejects.toThrow(
+    ErrorMessages.NOT_AUTHENTICATED
+  );
+});
+
+test('re-acquires the token and retries once when a web API rejects it', async () => {
+  const authApp = getAuthProvider({
+    remoteResources: {
+      graphAPI: { endpoint: 'https://graph', scopes: ['User.Read'] },
+    },
+  });
+
+  const acquireTokenSilent = jest
+    .spyOn(authApp.msalClient, 'acquireTokenSilent')
+    .mockImplementation(
+      async request =>
+        ({
+          accessToken: request.forceRefresh ? 'new token' : 'revoked token',
+        } as any)
+    );
+
+  const callApi = jest
+    .spyOn(FetchManager, 'callApi')
+    .mockRejectedValueOnce(
+      new DownstreamApiError({ status: 401, headers: {}, data: null })
+    )
+    .mockResolvedValueOnce({ status: 200, headers: {}, data: 'me' });
+
+  const req = getRequest({ isAuthenticated: true, account: {} });
+  const next = jest.fn();
+
+  await authApp.callDownstreamApi('graphAPI')(req, {} as any, next);
+
+  expect(next).toHaveBeenCalledWith();
+  expect(acquireTokenSilent).toHaveBeenLastCalledWith(
+    expect.objectContaining({ scopes: ['User.Read'], forceRefresh: true })
+  );
+  expect(callApi.mock.calls.map(call => call[1])).toEqual([
+    'revoked token',
+    'new token',
+  ]);
+  expect(req.authContext.responses.graphAPI.data).toBe('me');
+
+  callApi.mockRestore();
+});
+
+test('redirects the user to satisfy a claims challenge from a web API', async () => {
+  const authApp = getAuthProvider({
+    remoteResources: {
+      graphAPI: { endpoint: 'https://graph', scopes: ['User.Read'] },
+    },
+  });
+  const getAuthCodeUrl = mockAuthCodeUrl(authApp);
+
+  const claims = '{"access_token":{"nbf":{"essential":true}}}';
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenSilent')
+    .mockImplementation(async request => {
+      if (request.claims) {
+        throw new InteractionRequiredAuthError('interaction_required');
+      }
+      return { accessToken: TEST_CONSTANTS.ACCESS_TOKEN } as any;
+    });
+
+  const callApi = jest.spyOn(FetchManager, 'callApi').mockRejectedValue(
+    new DownstreamApiError({
+      status: 401,
+      headers: {
+        'www-authenticate': getClaimsChallengeHeader(claims),
+      },
+      data: null,
+    })
+  );
+
+  const res: any = { redirect: jest.fn() };
+  const next = jest.fn();
+
+  await authApp.callDownstreamApi('graphAPI')(
+    getRequest({ isAuthenticated: true, account: {} }),
+    res,
+    next
+  );
+
+  expect(next).not.toHaveBeenCalled();
+  expect(getAuthCodeUrl).toHaveBeenCalledWith(
+    expect.objectContaining({ scopes: ['User.Read'], claims: claims })
+  );
+  expect(
+    (authApp as any).stateManager.decodeState(res.redirect.mock.calls[0][0])
+  ).toEqual(
+    expect.objectContaining({ path: TEST_CONSTANTS.APP_ROUTE, claims: claims })
+  );
+
+  callApi.mockRestore();
+});
+
+test('passes an error on when calling a web API without remote resources', async () => {
+  const authApp = getAuthProvider();
+  const next = jest.fn();
+
+  await authApp.callDownstreamApi('graphAPI')(
+    getRequest({ isAuthenticated: true, account: {} }),
+    {} as any,
+    next
+  );
+
+  expect(next).toHaveBeenCalledWith(
+    expect.objectContaining({
+      message: `${ErrorMessages.RESOURCE_NOT_FOUND}: graphAPI`,
+    })
+  );
+});
+
+test('passes client capabilities to MSAL', () => {
+  const authApp = getAuthProvider({ clientCapabilities: ['cp1'] });
+
+  expect((authApp.msalClient as any).config.auth.clientCapabilities).toEqual([
+    'cp1',
+  ]);
+});
+
+test('redirects the user to satisfy a claims challenge', async () => {
+  const authApp = getAuthProvider();
+  const getAuthCodeUrl = mockAuthCodeUrl(authApp);
+
+  const claims = '{"access_token":{"acrs":{"essential":true,"value":"c1"}}}';
+  const resource = { endpoint: 'https://graph', scopes: ['User.Read'] };
+
+  const res: any = { redirect: jest.fn() };
+  const next = jest.fn();
+
+  await authApp.handleClaimsChallenge(
+    getRequest({ isAuthenticated: true, account: {} }),
+    res,
+    next,
+    { resource: resource, wwwAuthenticate: getClaimsChallengeHeader(claims) }
+  );
+
+  expect(getAuthCodeUrl).toHaveBeenCalledWith(
+    expect.objectContaining({ scopes: ['User.Read'], claims: claims })
+  );
+  expect(
+    (authApp as any).stateManager.decodeState(res.redirect.mock.calls[0][0])
+  ).toEqual(
+    expect.objectContaining({ path: TEST_CONSTANTS.APP_ROUTE, claims: claims })
+  );
+
+  // responses without a claims challenge are passed on as errors
+  await authApp.handleClaimsChallenge(
+    getRequest({ isAuthenticated: true, account: {} }),
+    res,
+    next,
+    { resource: resource, wwwAuthenticate: 'Bearer error="invalid_token"' }
+  );
+
+  expect(next).toHaveBeenCalledWith(
+    new Error(ErrorMessages.CLAIMS_CHALLENGE_NOT_FOUND)
+  );
+  expect(getAuthCodeUrl).toHaveBeenCalledTimes(1);
+});
+
+test('acquires tokens with the claims given to getToken', async () => {
+  const authApp = getAuthProvider();
+  const getAuthCodeUrl = mockAuthCodeUrl(authApp);
+
+  const claims = '{"access_token":{"xms_cc":{"values":["cp1"]}}}';
+  const resource = { endpoint: 'https://graph', scopes: ['User.Read'] };
+
+  const acquireTokenSilent = jest
+    .spyOn(authApp.msalClient, 'acquireTokenSilent')
+    .mockResolvedValueOnce({ accessToken: TEST_CONSTANTS.ACCESS_TOKEN } as any)
+    .mockRejectedValueOnce(
+      new InteractionRequiredAuthError('interaction_required')
+    );
+
+  const getToken = authApp.getToken({ resource: resource, claims: claims });
+
+  const req = getRequest({ isAuthenticated: true, account: {} });
+  const res: any = { redirect: jest.fn() };
+  const next = jest.fn();
+
+  await getToken(req, res, next);
+
+  expect(acquireTokenSilent).toHaveBeenCalledWith(
+    expect.objectContaining({ scopes: ['User.Read'], claims: claims })
+  );
+  expect(next).toHaveBeenCalledWith();
+  expect(Object.values(req.authContext.tokens)).toEqual([
+    TEST_CONSTANTS.ACCESS_TOKEN,
+  ]);
+
+  // the claims are then requested interactively
+  await getToken(req, res, next);
+
+  expect(getAuthCodeUrl).toHaveBeenCalledWith(
+    expect.objectContaining({ scopes: ['User.Read'], claims: claims })
+  );
+  expect(res.redirect).toHaveBeenCalledTimes(1);
+});
+
+test('redeems the code with the claims of a challenge, and returns to the route', async () => {
+  const authApp = getAuthProvider();
+  mockAuthCodeUrl(authApp);
+
+  const claims = '{"access_token":{"nbf":{"essential":true}}}';
+
+  const acquireTokenByCode = jest
+    .spyOn(authApp.msalClient, 'acquireTokenByCode')
+    .mockResolvedValue({ account: {} } as any);
+
+  const session: any = { isAuthenticated: true, account: {} };
+  const res: any = { redirect: jest.fn() };
+
+  await authApp.handleClaimsChallenge(getRequest(session), res, jest.fn(), {
+    resource: { endpoint: 'https://graph', scopes: ['User.Read'] },
+    wwwAuthenticate: getClaimsChallengeHeader(claims),
+  });
+
+  await (authApp as any).handleRedirect()(
+    getRequest(session, {
+      code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+      state: res.redirect.mock.calls[0][0],
+    }),
+    res,
+    jest.fn()
+  );
+
+  expect(acquireTokenByCode).toHaveBeenCalledWith(
+    expect.objectContaining({
+      code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+      scopes: ['User.Read'],
+      claims: claims,
+    })
+  );
+  expect(res.redirect).toHaveBeenLastCalledWith(TEST_CONSTANTS.APP_ROUTE);
+});
+
+test('caches resolved group memberships per user until the TTL expires', async () => {
+  const authApp = getAuthProvider({
+    groupOverageOptions: { cacheTtl: 60 },
+  });
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenOnBehalfOf')
+    .mockResolvedValue({ accessToken: TEST_CONSTANTS.ACCESS_TOKEN } as any);
+
+  const handlePagination = jest
+    .spyOn(FetchManager, 'handlePagination')
+    .mockResolvedValue(['group1', 'group2']);
+
+  const hasAccess = authApp.hasAccess({
+    accessRule: { path: '/api', methods: ['GET'], groups: ['group1'] },
+  });
+
+  const checkAccess = async (): Promise<boolean> => {
+    const req: any = {
+      method: 'GET',
+      accepts: () => 'json',
+      authContext: {
+        accessToken: TEST_CONSTANTS.ACCESS_TOKEN,
+        accessTokenClaims: {
+          tid: TEST_CONSTANTS.TENANT_ID,
+          oid: 'oid',
+          _claim_names: { groups: 'src1' },
+          _claim_sources: { src1: {} },
+        },
+      },
+    };
+    const next = jest.fn();
+
+    await hasAccess(req, getGuardResponse(), next);
+    return next.mock.calls.length > 0;
+  };
+
+  const now = Date.now();
+  const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+  expect(await checkAccess()).toBe(true);
+  expect(await checkAccess()).toBe(true);
+  expect(handlePagination).toHaveBeenCalledTimes(1);
+
+  dateNow.mockReturnValue(now + 61 * 1000);
+
+  expect(await checkAccess()).toBe(true);
+  expect(handlePagination).toHaveBeenCalledTimes(2);
+
+  dateNow.mockRestore();
+  handlePagination.mockRestore();
+});
+
+test('resolves group memberships of session users from the cache on each request', async () => {
+  const authApp = getAuthProvider({
+    groupOverageOptions: { cacheTtl: 60 },
+  });
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenSilent')
+    .mockResolvedValue({ accessToken: TEST_CONSTANTS.ACCESS_TOKEN } as any);
+
+  const handlePagination = jest
+    .spyOn(FetchManager, 'handlePagination')
+    .mockResolvedValue(['group1', 'group2']);
+
+  const hasAccess = authApp.hasAccess({
+    accessRule: { path: '/', methods: ['GET'], groups: ['group1'] },
+  });
+
+  const idTokenClaims = {
+    tid: TEST_CONSTANTS.TENANT_ID,
+    oid: 'oid',
+    _claim_names: { groups: 'src1' },
+    _claim_sources: { src1: {} },
+  };
+
+  const session: any = {
+    isAuthenticated: true,
+    account: { idTokenClaims: idTokenClaims },
+  };
+
+  const checkAccess = async (): Promise<boolean> => {
+    const next = jest.fn();
+
+    await hasAccess(
+      { ...getRequest(session), method: 'GET', accepts: () => 'html' },
+      getGuardResponse(),
+      next
+    );
+    return next.mock.calls.length > 0;
+  };
+
+  const now = Date.now();
+  const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+  expect(await checkAccess()).toBe(true);
+  expect(await checkAccess()).toBe(true);
+  expect(handlePagination).toHaveBeenCalledTimes(1);
+
+  // groups are not persisted in session
+  expect(session.account.idTokenClaims).toEqual(idTokenClaims);
+
+  dateNow.mockReturnValue(now + 61 * 1000);
+  handlePagination.mockResolvedValue(['group2']);
+
+  expect(await checkAccess()).toBe(false);
+  expect(handlePagination).toHaveBeenCalledTimes(2);
+
+  dateNow.mockRestore();
+  handlePagination.mockRestore();
+});
+
+test('does not sign the user in when a sign-in hook redirects', async () => {
+  const authApp = getAuthProvider();
+  mockAuthCodeUrl(authApp);
+
+  const account = { homeAccountId: 'oid.tid' };
+  const claims = { oid: 'oid', tid: TEST_CONSTANTS.TENANT_ID };
+
+  jest
+    .spyOn(authApp.msalClient, 'acquireTokenByCode')
+    .mockResolvedValue({ idToken: 'ID_TOKEN', account: account } as any);
+
+  jest
+    .spyOn((authApp as any).tokenValidator, 'validateIdToken')
+    .mockResolvedValue({ isValid: true, claims: claims, errors: [] });
+
+  const signIn = async (signInHooks: any[]) => {
+    const session: any = {};
+    const res: any = { redirect: jest.fn() };
+
+    await authApp.signIn({ successRedirect: '/home' })(
+      getRequest(session),
+      res,
+      jest.fn()
+    );
+
+    await (authApp as any).handleRedirect({ signInHooks })(
+      getRequest(session, {
+        code: TEST_CONSTANTS.AUTHORIZATION_CODE,
+        state: res.redirect.mock.calls[0][0],
+      }),
+      res,
+      jest.fn()
+    );
+
+    return { session, redirect: res.redirect.mock.calls[1][0] };
+  };
+
+  const allow = jest.fn().mockResolvedValue(undefined);
+  const reject = jest.fn().mockResolvedValue({ redirect: '/blocked' });
+  const skipped = jest.fn();
+
+  const rejected = await signIn([allow, reject, skipped]);
+
+  expect(rejected.redirect).toBe('/blocked');
+  expect(rejected.session.isAuthenticated).toBeUndefined();
+  expect(reject).toHaveBeenCalledWith(
+    expect.anything(),
+    expect.objectContaining({ account: account, claims: claims })
+  );
+  expect(skipped).not.toHaveBeenCalled();
+
+  const allowed = await signIn([allow]);
+
+  expect(allowed.redirect).toBe('/home');
+  expect(allowed.session.isAuthenticated).toBe(true);
+  expect(allowed.session.account).toBe(account);
+  expect(allowed.session.idToken).toBeUndefined();
+});